@@ -0,0 +1,15 @@
+/// <reference path="./hmr.d.ts" />
+
+declare module 'virtual:style-dictionary/tokens' {
+  import type { DesignTokens } from 'style-dictionary/types';
+
+  const tokens: DesignTokens;
+  export default tokens;
+}
+
+declare module 'virtual:style-dictionary/tokens/*' {
+  import type { DesignTokens } from 'style-dictionary/types';
+
+  const tokens: DesignTokens;
+  export default tokens;
+}
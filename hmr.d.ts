@@ -0,0 +1,10 @@
+// Types the payload of `import.meta.hot.on('style-dictionary:update', ...)`.
+// Referenced by client.d.ts, and exported as `/hmr` on its own for projects
+// typing the tokens modules with `dts`.
+import type { StyleDictionaryUpdatePayload } from 'vite-plugin-style-dictionary';
+
+declare module 'vite/types/customEvent.d.ts' {
+  interface CustomEventMap {
+    'style-dictionary:update': StyleDictionaryUpdatePayload;
+  }
+}
@@ -0,0 +1,277 @@
+import { randomUUID } from 'node:crypto';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { setTimeout as delay } from 'node:timers/promises';
+import { createFilter } from 'vite';
+import type { DesignTokens } from 'style-dictionary/types';
+import { hashContent, readOutputFile, writeOutputFile } from './outputs';
+
+/** Bump whenever the entry format or the way outputs are built changes. */
+const CACHE_VERSION = 1;
+const CACHE_DIR = 'style-dictionary';
+const GLOB_PREFIX = 'glob:';
+const MISSING = '';
+// Never part of a token glob's matches, and expensive to walk.
+const SKIPPED_DIRS = new Set(['node_modules', '.git']);
+const GLOB_MAGIC = /[*?[\]{}!]/;
+
+export interface CachedTarget {
+  name: string;
+  tokenTree: DesignTokens;
+  /** Output contents by key, when outputs are kept in memory. */
+  outputs?: Record<string, string>;
+}
+
+export interface BuildCacheEntry {
+  version: number;
+  /**
+   * Content hashes of every file the build read, by path relative to the
+   * root. `glob:<pattern>` entries hash the files a glob matched, by path and
+   * content.
+   */
+  inputs: Record<string, string>;
+  /** Content hashes of the generated files, by path relative to the root. */
+  outputs: Record<string, string>;
+  targets: CachedTarget[];
+}
+
+// Functions (filters, transforms, ...) and regular expressions have no JSON
+// form, so their source stands in for them.
+const toKeyValue = (_key: string, value: unknown) =>
+  typeof value === 'function' || value instanceof RegExp
+    ? String(value)
+    : value;
+
+/**
+ * Path of the cache entry for everything that shapes a build besides the
+ * files it reads: configs, options, Style Dictionary version and so on.
+ */
+export const getCacheFile = (cacheDir: string, key: unknown) =>
+  path.join(
+    cacheDir,
+    CACHE_DIR,
+    `${hashContent(
+      JSON.stringify([CACHE_VERSION, key], toKeyValue) ?? '',
+    ).slice(0, 16)}.json`,
+  );
+
+const toRelative = (root: string, file: string) =>
+  path.relative(root, file).split(path.sep).join('/');
+
+const hashFile = async (file: string) => {
+  const content = await readOutputFile(file);
+  return content === undefined ? MISSING : hashContent(content);
+};
+
+async function listFiles(dir: string): Promise<string[]> {
+  const entries = await fs
+    .readdir(dir, { withFileTypes: true })
+    .catch(() => []);
+  const files = await Promise.all(
+    entries.map((entry) => {
+      const file = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        return SKIPPED_DIRS.has(entry.name) ? [] : listFiles(file);
+      }
+      return entry.isFile() ? [file] : [];
+    }),
+  );
+  return files.flat();
+}
+
+// Files are listed from the glob's static prefix, e.g. `/project/tokens` for
+// `/project/tokens/**/*.json`.
+async function expandGlob(root: string, pattern: string) {
+  const absolute = path.isAbsolute(pattern)
+    ? pattern
+    : path.join(root, pattern);
+  const segments = absolute.split(/[\\/]/);
+  const magic = segments.findIndex((segment) => GLOB_MAGIC.test(segment));
+  const base = segments.slice(0, magic).join('/') || '/';
+  const include = createFilter([absolute]);
+  const files = await listFiles(base);
+  return files.filter((file) => include(file)).sort();
+}
+
+/** Hashes the given files, and the matches of the given globs as a whole. */
+export async function hashInputs(
+  root: string,
+  { files, globs }: { files: string[]; globs: string[] },
+): Promise<Record<string, string>> {
+  const entries = await Promise.all([
+    ...files.map(async (file) => [
+      toRelative(root, file),
+      await hashFile(file),
+    ]),
+    ...globs.map(async (glob) => {
+      const matches = await Promise.all(
+        (await expandGlob(root, glob)).map(
+          async (file) => `${toRelative(root, file)}:${await hashFile(file)}`,
+        ),
+      );
+      return [`${GLOB_PREFIX}${glob}`, hashContent(matches.join('\n'))];
+    }),
+  ]);
+  return Object.fromEntries(entries);
+}
+
+export async function readCacheEntry(
+  file: string,
+): Promise<BuildCacheEntry | null> {
+  const content = await readOutputFile(file);
+  if (content === undefined) return null;
+  try {
+    const entry = JSON.parse(content) as BuildCacheEntry;
+    return entry.version === CACHE_VERSION ? entry : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether every input recorded in `entry` still has the same content (globs
+ * the same matches, with the same content) and every generated file is still
+ * on disk, unmodified.
+ */
+export async function isCacheEntryFresh(
+  root: string,
+  entry: BuildCacheEntry,
+): Promise<boolean> {
+  const recorded = Object.keys(entry.inputs);
+  const inputs = await hashInputs(root, {
+    files: recorded
+      .filter((key) => !key.startsWith(GLOB_PREFIX))
+      .map((key) => path.resolve(root, key)),
+    globs: recorded
+      .filter((key) => key.startsWith(GLOB_PREFIX))
+      .map((key) => key.slice(GLOB_PREFIX.length)),
+  });
+  const outputs = await hashInputs(root, {
+    files: Object.keys(entry.outputs).map((key) => path.resolve(root, key)),
+    globs: [],
+  });
+  return (
+    Object.entries(entry.inputs).every(([key, hash]) => inputs[key] === hash) &&
+    Object.entries(entry.outputs).every(
+      ([key, hash]) => hash !== MISSING && outputs[key] === hash,
+    )
+  );
+}
+
+// Written to a temporary file first, so parallel builds never read half an
+// entry.
+export async function writeCacheEntry(
+  file: string,
+  entry: Omit<BuildCacheEntry, 'version'>,
+) {
+  const temporary = `${file}.${process.pid}.tmp`;
+  await writeOutputFile(
+    temporary,
+    JSON.stringify({ version: CACHE_VERSION, ...entry }),
+  );
+  await fs.rename(temporary, file);
+}
+
+interface LockOwner {
+  host: string;
+  pid: number;
+  /** Tells this process apart from an earlier one that had the same pid. */
+  id: string;
+}
+
+const LOCK_OWNER: LockOwner = {
+  host: os.hostname(),
+  pid: process.pid,
+  id: randomUUID(),
+};
+
+const readLockOwner = async (lockFile: string) => {
+  const content = await readOutputFile(lockFile);
+  try {
+    return content === undefined
+      ? undefined
+      : (JSON.parse(content) as LockOwner);
+  } catch {
+    // Created, but not written yet.
+    return undefined;
+  }
+};
+
+const isProcessAlive = (pid: number) => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user.
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+};
+
+// A lock is abandoned when its process is gone, or when it is held for longer
+// than any build should take. Locks of other hosts, or of this pid but another
+// process, come from a cache directory restored between CI runs: the process
+// that held them is gone, though a new one (often in a container) may have its
+// pid.
+async function isStaleLock(lockFile: string, staleAfter: number) {
+  const [owner, stats] = await Promise.all([
+    readLockOwner(lockFile),
+    fs.stat(lockFile).catch(() => undefined),
+  ]);
+  if (!stats) return false;
+  if (Date.now() - stats.mtimeMs > staleAfter) return true;
+  if (!owner) return false;
+  if (owner.host !== LOCK_OWNER.host) return true;
+  return owner.pid === LOCK_OWNER.pid
+    ? owner.id !== LOCK_OWNER.id
+    : !isProcessAlive(owner.pid);
+}
+
+// Resolves to false when the lock cannot be created at all, e.g. in a
+// read-only cache directory.
+async function acquireLock(
+  lockFile: string,
+  { retryDelay, staleAfter }: { retryDelay: number; staleAfter: number },
+) {
+  try {
+    await fs.mkdir(path.dirname(lockFile), { recursive: true });
+  } catch {
+    return false;
+  }
+  for (;;) {
+    try {
+      await fs.writeFile(lockFile, JSON.stringify(LOCK_OWNER), { flag: 'wx' });
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') return false;
+      if (await isStaleLock(lockFile, staleAfter)) {
+        await fs.rm(lockFile, { force: true });
+      } else {
+        await delay(retryDelay);
+      }
+    }
+  }
+}
+
+/**
+ * Runs `task` while holding `<file>.lock`, after any other process or plugin
+ * instance holding it is done. Used so that parallel builds of the same entry
+ * (e.g. every project of a Vitest workspace) run one after the other, and all
+ * but the first find a fresh entry. When the lock cannot be created, `task`
+ * runs without it.
+ */
+export async function withCacheLock<T>(
+  file: string,
+  task: () => Promise<T>,
+  { retryDelay = 50, staleAfter = 120_000 } = {},
+): Promise<T> {
+  const lockFile = `${file}.lock`;
+  if (!(await acquireLock(lockFile, { retryDelay, staleAfter }))) {
+    return task();
+  }
+  try {
+    return await task();
+  } finally {
+    await fs.rm(lockFile, { force: true });
+  }
+}
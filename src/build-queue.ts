@@ -0,0 +1,56 @@
+interface Waiter<T> {
+  resolve: (batch: Set<T> | null) => void;
+  reject: (error: unknown) => void;
+}
+
+export interface BuildQueue<T> {
+  /**
+   * Requests a build for `keys`. Requests made within `delay` ms of each other
+   * are coalesced into one batch, and a batch never starts while another build
+   * is running. Resolves once the batch containing the request has been
+   * built: the last request of the batch receives every key that was built,
+   * earlier requests receive `null`.
+   */
+  schedule: (keys: Iterable<T>) => Promise<Set<T> | null>;
+}
+
+export function createBuildQueue<T>(
+  run: (keys: Set<T>) => Promise<void>,
+  delay: number,
+): BuildQueue<T> {
+  let pending = new Set<T>();
+  let waiters: Waiter<T>[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let running: Promise<void> = Promise.resolve();
+
+  // The batch is taken when the previous build finishes, so changes made
+  // while a build runs are picked up by a single trailing build.
+  const flush = () => {
+    timer = undefined;
+    running = running.then(async () => {
+      if (waiters.length === 0) return;
+      const keys = pending;
+      const batchWaiters = waiters;
+      pending = new Set();
+      waiters = [];
+      try {
+        await run(keys);
+        batchWaiters.forEach(({ resolve }, index) =>
+          resolve(index === batchWaiters.length - 1 ? keys : null),
+        );
+      } catch (error) {
+        batchWaiters.forEach(({ reject }) => reject(error));
+      }
+    });
+  };
+
+  return {
+    schedule: (keys) =>
+      new Promise((resolve, reject) => {
+        for (const key of keys) pending.add(key);
+        waiters.push({ resolve, reject });
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(flush, delay);
+      }),
+  };
+}
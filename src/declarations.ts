@@ -0,0 +1,64 @@
+import { isPlainObject } from 'lodash-es';
+import type { DesignTokens } from 'style-dictionary/types';
+
+export interface TokenModuleTypes {
+  /** Module specifier, e.g. `virtual:style-dictionary/tokens`. */
+  id: string;
+  tree: DesignTokens;
+}
+
+const HEADER = '// Generated by vite-plugin-style-dictionary. Do not edit.';
+const TYPE_KEYS = new Set(['type', '$type']);
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+const toKey = (key: string) => (IDENTIFIER.test(key) ? key : JSON.stringify(key));
+
+function renderType(value: unknown, indent: string): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) {
+    const items = Array.from(
+      new Set(value.map((item) => renderType(item, indent))),
+    );
+    if (items.length === 0) return 'readonly unknown[]';
+    return items.length === 1 && !items[0]?.includes('\n')
+      ? `readonly ${items[0]}[]`
+      : `ReadonlyArray<${items.join(' | ')}>`;
+  }
+  if (isPlainObject(value)) {
+    return renderObject(value as Record<string, unknown>, indent);
+  }
+  const type = typeof value;
+  return type === 'string' || type === 'number' || type === 'boolean'
+    ? type
+    : 'unknown';
+}
+
+// `type`/`$type` keep their literal value so consumers can narrow on them.
+function renderObject(node: Record<string, unknown>, indent: string): string {
+  const entries = Object.entries(node);
+  if (entries.length === 0) return '{}';
+  const inner = `${indent}  `;
+  const members = entries.map(([key, value]) => {
+    const type =
+      TYPE_KEYS.has(key) && typeof value === 'string'
+        ? JSON.stringify(value)
+        : renderType(value, inner);
+    return `${inner}readonly ${toKey(key)}: ${type};`;
+  });
+  return `{\n${members.join('\n')}\n${indent}}`;
+}
+
+/**
+ * Renders ambient module declarations typing each virtual tokens module with
+ * the shape of its resolved token tree.
+ */
+export function renderDeclarations(modules: TokenModuleTypes[]): string {
+  const declarations = modules.map(
+    ({ id, tree }) =>
+      `declare module ${JSON.stringify(id)} {\n` +
+      `  const tokens: ${renderObject(tree, '  ')};\n` +
+      '  export default tokens;\n' +
+      '}\n',
+  );
+  return [HEADER, '', ...declarations].join('\n');
+}
@@ -0,0 +1,82 @@
+/** Token types defined by the Design Tokens Community Group format. */
+export type DtcgTokenType =
+  | 'color'
+  | 'dimension'
+  | 'fontFamily'
+  | 'fontWeight'
+  | 'duration'
+  | 'cubicBezier'
+  | 'number'
+  | 'strokeStyle'
+  | 'border'
+  | 'transition'
+  | 'shadow'
+  | 'gradient'
+  | 'typography';
+
+interface DtcgProperties {
+  $type?: DtcgTokenType;
+  $description?: string;
+  $extensions?: Record<string, unknown>;
+  $deprecated?: boolean | string;
+}
+
+export interface DtcgToken<Value = unknown> extends DtcgProperties {
+  $value: Value;
+}
+
+export interface DtcgGroup extends DtcgProperties {
+  [name: string]: DtcgToken | DtcgGroup | DtcgProperties[keyof DtcgProperties];
+}
+
+/** Dot-separated paths of every token (node with a `$value`) in a tree. */
+export type TokenPath<Tree, Prefix extends string = ''> = Tree extends object
+  ? {
+      [Key in keyof Tree & string]: Key extends `$${string}`
+        ? never
+        : Tree[Key] extends { $value: unknown }
+          ? `${Prefix}${Key}`
+          : TokenPath<Tree[Key], `${Prefix}${Key}.`>;
+    }[keyof Tree & string]
+  : never;
+
+type References<Value extends string> =
+  Value extends `${string}{${infer Reference}}${infer Rest}`
+    ? Reference | References<Rest>
+    : never;
+
+// Unknown references turn the value's expected type into an error message,
+// which the editor shows on the offending string.
+type CheckValue<Value, Paths extends string> = Value extends string
+  ? [Exclude<References<Value>, Paths>] extends [never]
+    ? Value
+    : `Unknown reference {${Exclude<References<Value>, Paths>}}`
+  : Value extends object
+    ? { [Key in keyof Value]: CheckValue<Value[Key], Paths> }
+    : Value;
+
+// The group index signature has to accept `$extensions` objects, so token
+// nodes and `$type` values are checked here rather than by `DtcgGroup`.
+type CheckTokens<Tree, Paths extends string> = {
+  [Key in keyof Tree]: Key extends '$value'
+    ? CheckValue<Tree[Key], Paths>
+    : Key extends '$type'
+      ? Tree[Key] extends DtcgTokenType
+        ? Tree[Key]
+        : DtcgTokenType
+      : Tree[Key] extends object
+        ? CheckTokens<Tree[Key], Paths>
+        : Tree[Key];
+};
+
+/**
+ * Declares a DTCG token tree. Returns `tokens` unchanged; its only purpose is
+ * typing: `$value`/`$type`/`$description` are suggested, `$type` must be a
+ * DTCG type, and `{group.token}` aliases must point at a token defined in the
+ * same tree.
+ */
+export function defineTokens<const Tree extends DtcgGroup>(
+  tokens: Tree & CheckTokens<Tree, TokenPath<Tree>>,
+): Tree {
+  return tokens;
+}
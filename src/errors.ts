@@ -0,0 +1,113 @@
+import type { ErrorPayload } from 'vite';
+import { has, isPlainObject } from 'lodash-es';
+import type { PreprocessedTokens } from 'style-dictionary/types';
+
+const REFERENCE = /\{([^{}]+)\}/g;
+
+export interface BrokenReference {
+  /** Dot-separated path of the token holding the reference. */
+  token: string;
+  /** Alias that could not be resolved, e.g. `{color.missing}`. */
+  reference: string;
+  /** Source file the token was loaded from, when known. */
+  filePath?: string;
+}
+
+interface TokenSource {
+  tokens?: PreprocessedTokens;
+  usesDtcg?: boolean;
+}
+
+export class TokenBuildError extends Error {
+  readonly token?: string;
+  readonly reference?: string;
+  readonly filePath?: string;
+
+  constructor(
+    message: string,
+    { cause, token, reference, filePath }: Partial<BrokenReference> & {
+      cause?: unknown;
+    } = {},
+  ) {
+    super(message, { cause });
+    this.name = 'TokenBuildError';
+    this.token = token;
+    this.reference = reference;
+    this.filePath = filePath;
+  }
+}
+
+const collectStrings = (value: unknown): string[] => {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.flatMap(collectStrings);
+  if (isPlainObject(value)) {
+    return Object.values(value as Record<string, unknown>).flatMap(
+      collectStrings,
+    );
+  }
+  return [];
+};
+
+export function findBrokenReferences({
+  tokens = {},
+  usesDtcg,
+}: TokenSource): BrokenReference[] {
+  const valueKey = usesDtcg ? '$value' : 'value';
+  const visit = (node: unknown, tokenPath: string[]): BrokenReference[] => {
+    if (!isPlainObject(node)) return [];
+    const group = node as Record<string, unknown>;
+    if (!(valueKey in group)) {
+      return Object.entries(group).flatMap(([key, child]) =>
+        visit(child, [...tokenPath, key]),
+      );
+    }
+    return collectStrings(group[valueKey])
+      .flatMap((value) => Array.from(value.matchAll(REFERENCE)))
+      .filter(([, target = '']) => !has(tokens, target.split('.')))
+      .map(([reference]) => ({
+        token: tokenPath.join('.'),
+        reference,
+        ...(typeof group.filePath === 'string' && { filePath: group.filePath }),
+      }));
+  };
+  return visit(tokens, []);
+}
+
+export function toTokenBuildError(
+  error: unknown,
+  source: TokenSource,
+): TokenBuildError {
+  if (error instanceof TokenBuildError) return error;
+  const cause = error instanceof Error ? error : new Error(String(error));
+  const brokenReferences = findBrokenReferences(source);
+  const [first] = brokenReferences;
+  const details = brokenReferences.map(
+    ({ token, reference, filePath }) =>
+      `  ${token} tries to reference ${reference}, which is not defined${
+        filePath ? ` (${filePath})` : ''
+      }`,
+  );
+  const message = [cause.message.trim(), ...details].join('\n');
+  // Errors thrown while loading a token module through Vite carry its id.
+  const moduleId = (cause as { id?: unknown }).id;
+
+  return new TokenBuildError(message, {
+    cause,
+    ...first,
+    filePath:
+      first?.filePath ?? (typeof moduleId === 'string' ? moduleId : undefined),
+  });
+}
+
+export const toErrorPayload = (
+  error: TokenBuildError,
+  plugin: string,
+): ErrorPayload['err'] => ({
+  message: error.message,
+  stack: error.stack ?? '',
+  plugin,
+  ...(error.filePath && { id: error.filePath }),
+  ...(error.token && {
+    frame: error.reference ? `${error.token}: ${error.reference}` : error.token,
+  }),
+});
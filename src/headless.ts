@@ -0,0 +1,309 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  createServer,
+  loadConfigFromFile,
+  resolveConfig,
+  type InlineConfig,
+  type LogLevel,
+  type Plugin,
+  type PluginOption,
+} from 'vite';
+import type { DesignTokens } from 'style-dictionary/types';
+import styleDictionaryPlugin, {
+  filterTokenPlugins,
+  type StyleDictionaryPluginOptions,
+} from './plugin';
+import type { StyleDictionaryConfigs } from './internal';
+import type { ConfigUpdate, StyleDictionaryUpdatePayload } from './hmr';
+import type { InspectedConfig } from './inspector';
+
+export interface HeadlessOptions
+  extends Omit<
+    StyleDictionaryPluginOptions,
+    'inMemory' | 'emitAssets' | 'inspector'
+  > {
+  /** Style Dictionary config(s), as passed to the plugin. */
+  config?: StyleDictionaryConfigs;
+  /** Module exporting the config(s); used when `config` is not given. */
+  configFile?: string;
+  /** Project root; defaults to the working directory. */
+  root?: string;
+  /** Vite mode; defaults to `production`. */
+  mode?: string;
+  /**
+   * Vite config whose aliases and plugins are used to load token modules.
+   * Found in `root` by default; `false` skips it.
+   */
+  viteConfigFile?: string | false;
+  logLevel?: LogLevel;
+}
+
+export interface BuildTokensResult {
+  /** Resolved token trees, keyed by config name. */
+  tokens: Record<string, DesignTokens>;
+  /**
+   * Describes the tokens of every config, as the inspector page does. Empty
+   * when the build was skipped by the cache.
+   */
+  inspect: () => Promise<InspectedConfig[]>;
+}
+
+export interface WatchTokensOptions extends HeadlessOptions {
+  /**
+   * Called after every rebuild that follows the first build, with the
+   * `style-dictionary:update` payload.
+   */
+  onUpdate?: (payload: StyleDictionaryUpdatePayload) => void;
+}
+
+export interface TokensWatcher {
+  inspect: () => Promise<InspectedConfig[]>;
+  close: () => Promise<void>;
+}
+
+const DEFAULT_CONFIG_FILES = [
+  'style-dictionary.config.ts',
+  'style-dictionary.config.mts',
+  'style-dictionary.config.js',
+  'style-dictionary.config.mjs',
+];
+
+const flattenPlugins = async (option: PluginOption): Promise<Plugin[]> => {
+  const resolved = await option;
+  if (!resolved) return [];
+  if (!Array.isArray(resolved)) return [resolved];
+  const nested = await Promise.all(resolved.map(flattenPlugins));
+  return nested.flat();
+};
+
+// Options the plugin does not know are ignored by it.
+const createPlugin = (options: HeadlessOptions) => {
+  const sdConfigs = options.config ?? options.configFile;
+  if (!sdConfigs) {
+    throw new Error(
+      '[style-dictionary] Either config or configFile is required',
+    );
+  }
+  return styleDictionaryPlugin(sdConfigs, options);
+};
+
+// The project's Vite config, minus any instance of this plugin: the headless
+// build brings its own.
+async function loadViteConfig(
+  {
+    root = process.cwd(),
+    mode = 'production',
+    viteConfigFile,
+    logLevel,
+  }: HeadlessOptions,
+  command: 'build' | 'serve',
+): Promise<InlineConfig> {
+  const loaded =
+    viteConfigFile === false
+      ? null
+      : await loadConfigFromFile(
+          { command, mode, isSsrBuild: false, isPreview: false },
+          viteConfigFile && path.resolve(root, viteConfigFile),
+          root,
+          logLevel,
+        );
+  const { plugins = [], ...config } = loaded?.config ?? {};
+  return {
+    ...config,
+    configFile: false,
+    root,
+    mode,
+    logLevel: logLevel ?? config.logLevel,
+    plugins: filterTokenPlugins(await flattenPlugins(plugins)),
+  };
+}
+
+/**
+ * Builds every config once, outside of a Vite app. Token modules, config and
+ * hook files are loaded through a temporary Vite server, exactly as in
+ * `vite build`.
+ */
+export async function buildTokens(
+  options: HeadlessOptions,
+): Promise<BuildTokensResult> {
+  const plugin = createPlugin(options);
+  const viteConfig = await loadViteConfig(options, 'build');
+  const resolved = await resolveConfig(viteConfig, 'build', viteConfig.mode);
+  await plugin.api.build(resolved);
+  return { tokens: plugin.api.getTokens(), inspect: plugin.api.inspect };
+}
+
+/**
+ * Builds every config and rebuilds on changes, with a Vite server in
+ * middleware mode that serves nothing. Resolves once the first build is done.
+ */
+export async function watchTokens({
+  onUpdate,
+  ...options
+}: WatchTokensOptions): Promise<TokensWatcher> {
+  const plugin = createPlugin(options);
+  const viteConfig = await loadViteConfig(options, 'serve');
+  const server = await createServer({
+    ...viteConfig,
+    plugins: [...(viteConfig.plugins ?? []), plugin],
+    server: { ...viteConfig.server, middlewareMode: true, ws: false },
+    appType: 'custom',
+    optimizeDeps: { noDiscovery: true, include: [] },
+  });
+  const unsubscribe = onUpdate ? plugin.api.onUpdate(onUpdate) : () => {};
+  return {
+    inspect: plugin.api.inspect,
+    close: async () => {
+      unsubscribe();
+      await server.close();
+    },
+  };
+}
+
+const USAGE = `Usage: vite-style-dictionary <command> [options]
+
+Commands:
+  build            Build every config once
+  watch            Build, then rebuild when token sources change
+  inspect [query]  Print the built tokens whose path contains query
+
+Options:
+  -c, --config <file>     Style Dictionary config module
+                          (default: style-dictionary.config.{ts,mts,js,mjs})
+  -r, --root <dir>        Project root (default: working directory)
+  -m, --mode <mode>       Vite mode (default: production)
+      --vite-config <file>  Vite config used to load token modules
+      --no-vite-config    Do not load a Vite config
+      --json              Print inspect results as JSON
+  -h, --help              Show this help
+`;
+
+const findConfigFile = (root: string) =>
+  DEFAULT_CONFIG_FILES.find((file) => fs.existsSync(path.resolve(root, file)));
+
+const formatValue = (value: unknown) =>
+  typeof value === 'string' ? value : JSON.stringify(value);
+
+const formatInspection = (configs: InspectedConfig[]) =>
+  configs
+    .flatMap(({ name, tokens }) => [
+      ...(configs.length > 1 ? [`${name}:`] : []),
+      ...tokens.map((token) =>
+        [
+          `${token.path} = ${formatValue(token.resolvedValue)}`,
+          ...(token.aliasChain.length > 0
+            ? [`  aliases: ${token.aliasChain.join(' -> ')}`]
+            : []),
+          ...(token.filePath ? [`  source: ${token.filePath}`] : []),
+          ...token.outputs.map(
+            (output) =>
+              `  ${output.platform}: ${output.name} = ${formatValue(output.value)}`,
+          ),
+        ].join('\n'),
+      ),
+    ])
+    .join('\n');
+
+const formatUpdate = (configs: ConfigUpdate[]) =>
+  configs
+    .map(
+      ({ config, added, removed, changed, files }) =>
+        `Rebuilt ${config}: ${added.length} added, ${removed.length} removed, ${
+          changed.length
+        } changed${files.length > 0 ? ` (${files.join(', ')})` : ''}`,
+    )
+    .join('\n');
+
+const waitForSignal = () =>
+  new Promise<void>((resolve) => {
+    const stop = () => {
+      process.off('SIGINT', stop);
+      process.off('SIGTERM', stop);
+      resolve();
+    };
+    process.on('SIGINT', stop);
+    process.on('SIGTERM', stop);
+  });
+
+/** Runs the `vite-style-dictionary` CLI. Resolves to the exit code. */
+export async function runCli(args: string[]): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        config: { type: 'string', short: 'c' },
+        root: { type: 'string', short: 'r' },
+        mode: { type: 'string', short: 'm' },
+        'vite-config': { type: 'string' },
+        'no-vite-config': { type: 'boolean' },
+        json: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : error}\n`);
+    console.error(USAGE);
+    return 1;
+  }
+  const { values, positionals } = parsed;
+  const [command, query = ''] = positionals;
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (command !== 'build' && command !== 'watch' && command !== 'inspect') {
+    if (command) console.error(`Unknown command "${command}"\n`);
+    console.error(USAGE);
+    return 1;
+  }
+
+  const root = path.resolve(values.root ?? process.cwd());
+  const configFile = values.config ?? findConfigFile(root);
+  if (!configFile) {
+    console.error(
+      `No Style Dictionary config found in ${root}; pass one with --config`,
+    );
+    return 1;
+  }
+  const options: HeadlessOptions = {
+    configFile: path.resolve(root, configFile),
+    root,
+    mode: values.mode,
+    viteConfigFile: values['no-vite-config'] ? false : values['vite-config'],
+    logLevel: command === 'inspect' ? 'error' : 'info',
+    // Configs restored from the build cache have nothing to inspect.
+    cache: command !== 'inspect',
+  };
+
+  try {
+    if (command === 'watch') {
+      const watcher = await watchTokens({
+        ...options,
+        mode: options.mode ?? 'development',
+        onUpdate: ({ configs }) => console.log(formatUpdate(configs)),
+      });
+      await waitForSignal();
+      await watcher.close();
+      return 0;
+    }
+    const { inspect } = await buildTokens(options);
+    if (command === 'build') return 0;
+    const configs = (await inspect()).map((config) => ({
+      ...config,
+      tokens: config.tokens.filter((token) => token.path.includes(query)),
+    }));
+    console.log(
+      values.json
+        ? JSON.stringify({ configs }, null, 2)
+        : formatInspection(configs),
+    );
+    return 0;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    return 1;
+  }
+}
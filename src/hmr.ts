@@ -0,0 +1,21 @@
+import type { TokenDiff } from './internal';
+
+/** Custom HMR event sent to clients after every dev server rebuild. */
+export const UPDATE_EVENT = 'style-dictionary:update';
+
+/** What one rebuilt config changed. */
+export interface ConfigUpdate extends TokenDiff {
+  /** Config name (`default` for a single config). */
+  config: string;
+  /**
+   * Regenerated outputs: paths relative to the Vite root, or
+   * `virtual:style-dictionary/...` specifiers for in-memory outputs.
+   */
+  files: string[];
+}
+
+/** Payload of the `style-dictionary:update` event. */
+export interface StyleDictionaryUpdatePayload {
+  /** Configs rebuilt by the update, including those that changed nothing. */
+  configs: ConfigUpdate[];
+}
@@ -1 +1,38 @@
 export { default } from './plugin';
+export type {
+  StyleDictionaryPluginApi,
+  StyleDictionaryPluginOptions,
+} from './plugin';
+export { buildTokens, watchTokens } from './headless';
+export type {
+  BuildTokensResult,
+  HeadlessOptions,
+  TokensWatcher,
+  WatchTokensOptions,
+} from './headless';
+export type {
+  StyleDictionaryConfigs,
+  TokenChange,
+  TokenContext,
+  TokenDiff,
+  TokensFactory,
+} from './internal';
+export type { ConfigUpdate, StyleDictionaryUpdatePayload } from './hmr';
+export type {
+  InspectedConfig,
+  InspectedToken,
+  TokenOutput,
+} from './inspector';
+export { defineTokens } from './define-tokens';
+export type {
+  DtcgGroup,
+  DtcgToken,
+  DtcgTokenType,
+  TokenPath,
+} from './define-tokens';
+export { createThemePermutations } from './themes';
+export type {
+  ThemeDimensions,
+  ThemePermutation,
+  ThemeSelection,
+} from './themes';
@@ -0,0 +1,291 @@
+import path from 'node:path';
+import type { Connect } from 'vite';
+import type StyleDictionary from 'style-dictionary';
+import type { DesignTokens, TransformedToken } from 'style-dictionary/types';
+import { flattenTokenTree } from './internal';
+import { getReferences } from './validation';
+import { UPDATE_EVENT } from './hmr';
+
+/** Route of the inspector page, relative to the dev server's `base`. */
+export const INSPECTOR_ROUTE = '__style-dictionary';
+
+export interface TokenOutput {
+  platform: string;
+  /** Name given by the platform's transforms, e.g. `color-surface-2`. */
+  name: string;
+  /** Value after the platform's transforms. */
+  value: unknown;
+  /** Destinations of the platform's files that include the token. */
+  files: string[];
+}
+
+export interface InspectedToken {
+  path: string;
+  type?: string;
+  description?: string;
+  /** Value as authored, aliases included. */
+  value: unknown;
+  /** Value with every alias resolved. */
+  resolvedValue: unknown;
+  /** Tokens followed when the value is a plain alias, nearest first. */
+  aliasChain: string[];
+  /** Tokens referenced anywhere in the value. */
+  references: string[];
+  /** Source file, relative to the Vite root. */
+  filePath?: string;
+  outputs: TokenOutput[];
+}
+
+export interface InspectedConfig {
+  name: string;
+  tokens: InspectedToken[];
+}
+
+const ALIAS = /^\{[^{}]+\}$/;
+
+const followAliases = (
+  name: string,
+  getValue: (name: string) => unknown,
+): string[] => {
+  const chain: string[] = [];
+  let value = getValue(name);
+  while (typeof value === 'string' && ALIAS.test(value)) {
+    const [target] = getReferences(value);
+    if (!target || chain.includes(target) || target === name) break;
+    chain.push(target);
+    value = getValue(target);
+  }
+  return chain;
+};
+
+const includesToken = async (
+  sd: StyleDictionary,
+  filter: unknown,
+  token: TransformedToken,
+) =>
+  // getPlatformConfig has already resolved named and object filters.
+  typeof filter === 'function'
+    ? Boolean(await filter(token, sd.options))
+    : true;
+
+/**
+ * Describes every token of a built dictionary: authored and resolved value,
+ * aliases, source file, and the name and value each platform gave it.
+ */
+export async function inspectTokens(
+  sd: StyleDictionary,
+  tokenTree: DesignTokens,
+  root: string,
+): Promise<InspectedToken[]> {
+  const valueKey = sd.usesDtcg ? '$value' : 'value';
+  const typeKey = sd.usesDtcg ? '$type' : 'type';
+  const authored = flattenTokenTree(sd.tokens as DesignTokens);
+  const resolved = flattenTokenTree(tokenTree);
+  const getValue = (name: string) => authored.get(name)?.[valueKey];
+
+  const platforms = await Promise.all(
+    Object.keys(sd.platforms ?? {}).map(async (platform) => {
+      const { files = [] } = sd.getPlatformConfig(platform);
+      const { allTokens } = await sd.getPlatformTokens(platform);
+      return {
+        platform,
+        files,
+        tokens: new Map(
+          allTokens.map((token: TransformedToken) => [
+            token.path.join('.'),
+            token,
+          ]),
+        ),
+      };
+    }),
+  );
+
+  return Promise.all(
+    Array.from(authored, async ([name, token]): Promise<InspectedToken> => {
+      const outputs = await Promise.all(
+        platforms.map(async ({ platform, files, tokens }) => {
+          const transformed = tokens.get(name);
+          if (!transformed) return [];
+          const destinations: string[] = [];
+          for (const { destination, filter } of files) {
+            if (!destination) continue;
+            if (await includesToken(sd, filter, transformed)) {
+              destinations.push(destination);
+            }
+          }
+          return [
+            {
+              platform,
+              name: transformed.name,
+              value: transformed[valueKey],
+              files: destinations,
+            },
+          ];
+        }),
+      );
+      const { filePath } = token;
+      const type = token[typeKey];
+      const description = token[sd.usesDtcg ? '$description' : 'comment'];
+      return {
+        path: name,
+        ...(typeof type === 'string' && { type }),
+        ...(typeof description === 'string' && { description }),
+        value: token[valueKey],
+        resolvedValue: resolved.get(name)?.[valueKey],
+        aliasChain: followAliases(name, getValue),
+        references: getReferences(token[valueKey]),
+        ...(typeof filePath === 'string' && {
+          filePath: path.relative(root, path.resolve(root, filePath)),
+        }),
+        outputs: outputs.flat(),
+      };
+    }),
+  );
+}
+
+/**
+ * Serves the inspector page at `<base>__style-dictionary/` and its data at
+ * `<base>__style-dictionary/tokens.json`.
+ */
+export function createInspectorMiddleware(
+  base: string,
+  inspect: () => Promise<InspectedConfig[]>,
+): Connect.NextHandleFunction {
+  return (req, res, next) => {
+    const [url = '/'] = (req.url ?? '/').split('?');
+    if (url === '/' || url === '') {
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      res.end(renderInspectorPage(base));
+      return;
+    }
+    if (url !== '/tokens.json') {
+      next();
+      return;
+    }
+    inspect().then(
+      (configs) => {
+        res.setHeader('Content-Type', 'application/json; charset=utf-8');
+        res.setHeader('Cache-Control', 'no-store');
+        res.end(JSON.stringify({ configs }));
+      },
+      (error: unknown) => next(error),
+    );
+  };
+}
+
+const STYLES = `
+  :root { color-scheme: light dark; font: 14px/1.4 system-ui, sans-serif; }
+  body { margin: 0; }
+  header { position: sticky; top: 0; display: flex; gap: 12px; align-items: center;
+    padding: 12px 16px; background: Canvas; border-bottom: 1px solid #8884; }
+  h1 { font-size: 16px; margin: 0 auto 0 0; }
+  input { width: 320px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; vertical-align: top; padding: 6px 16px;
+    border-bottom: 1px solid #8882; }
+  th { font-weight: 600; }
+  code { font: 12px ui-monospace, monospace; word-break: break-word; }
+  small { opacity: 0.7; }
+  ul { list-style: none; margin: 0; padding: 0; }
+  .swatch { display: inline-block; width: 14px; height: 14px; margin-right: 6px;
+    vertical-align: middle; border: 1px solid #8886; border-radius: 3px; }
+`;
+
+// Runs in the browser: fetches the inspection data and renders it with DOM
+// APIs (no innerHTML), refetching whenever the plugin finishes a rebuild.
+const SCRIPT = String.raw`
+  const { base, client, event } = JSON.parse(document.getElementById('options').textContent);
+  const configSelect = document.getElementById('config');
+  const search = document.getElementById('search');
+  const rows = document.getElementById('rows');
+  let configs = [];
+
+  const h = (tag, props, ...children) => {
+    const node = Object.assign(document.createElement(tag), props);
+    node.append(...children.flat().filter((child) => child != null && child !== false));
+    return node;
+  };
+  const show = (value) => typeof value === 'string' ? value : JSON.stringify(value);
+  const swatch = (value) =>
+    typeof value === 'string' && CSS.supports('color', value)
+      ? h('span', { className: 'swatch', style: 'background:' + value })
+      : null;
+  const valueCell = (value) => h('td', {}, swatch(value), h('code', {}, show(value)));
+
+  const render = () => {
+    const config = configs.find(({ name }) => name === configSelect.value) ?? configs[0];
+    const query = search.value.trim().toLowerCase();
+    const tokens = (config?.tokens ?? []).filter((token) =>
+      !query || JSON.stringify(token).toLowerCase().includes(query));
+    rows.replaceChildren(...tokens.map((token) => h('tr', {},
+      h('td', {}, h('code', {}, token.path),
+        token.type && h('div', {}, h('small', {}, token.type)),
+        token.description && h('div', {}, h('small', {}, token.description))),
+      valueCell(token.value),
+      valueCell(token.resolvedValue),
+      h('td', {}, h('code', {}, [token.path, ...token.aliasChain].join(' → '))),
+      h('td', {}, h('code', {}, token.filePath ?? '')),
+      h('td', {}, h('ul', {}, token.outputs.map((output) => h('li', {},
+        swatch(output.value),
+        h('code', {}, output.platform + ': ' + output.name + ' = ' + show(output.value)),
+        output.files.length > 0 && h('div', {}, h('small', {}, output.files.join(', ')))))))
+    )));
+  };
+
+  const refresh = async () => {
+    const response = await fetch(base + 'tokens.json');
+    ({ configs } = await response.json());
+    const selected = configSelect.value;
+    configSelect.replaceChildren(...configs.map(({ name }) => h('option', { value: name }, name)));
+    configSelect.value = configs.some(({ name }) => name === selected) ? selected : configs[0]?.name ?? '';
+    configSelect.hidden = configs.length < 2;
+    render();
+  };
+
+  configSelect.addEventListener('change', render);
+  search.addEventListener('input', render);
+  refresh();
+  import(client).then(({ createHotContext }) => {
+    createHotContext(base).on(event, refresh);
+  });
+`;
+
+export function renderInspectorPage(base: string): string {
+  const pageBase = `${base}${INSPECTOR_ROUTE}/`;
+  const options = JSON.stringify({
+    base: pageBase,
+    client: `${base}@vite/client`,
+    event: UPDATE_EVENT,
+  });
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Style Dictionary tokens</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+  <h1>Style Dictionary tokens</h1>
+  <select id="config" hidden></select>
+  <input id="search" type="search" placeholder="Filter by path, value, variable or file">
+</header>
+<table>
+  <thead>
+    <tr>
+      <th>Token</th>
+      <th>Value</th>
+      <th>Resolved</th>
+      <th>Aliases</th>
+      <th>Source</th>
+      <th>Outputs</th>
+    </tr>
+  </thead>
+  <tbody id="rows"></tbody>
+</table>
+<script type="application/json" id="options">${options.replace(/</g, '\\u003c')}</script>
+<script type="module">${SCRIPT}</script>
+</body>
+</html>
+`;
+}
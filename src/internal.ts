@@ -1,13 +1,72 @@
 import { createFilter } from 'vite';
 import type { ModuleNode, ViteDevServer } from 'vite';
 import type { Config } from 'style-dictionary';
-import type { DesignTokens, ParserOptions } from 'style-dictionary/types';
+import type {
+  DesignTokens,
+  Hooks,
+  ParserOptions,
+  PreprocessedTokens,
+} from 'style-dictionary/types';
 import path from 'node:path';
-import { castArray } from 'lodash-es';
+import { load as loadYaml } from 'js-yaml';
+import {
+  castArray,
+  isEqual,
+  isPlainObject,
+  mapValues,
+  merge,
+  omit,
+} from 'lodash-es';
+import { resolveReferences } from 'style-dictionary/utils';
 import { normalizeViteId } from './path-utils';
+import { toOutputKey } from './virtual-modules';
+import type { ThemeSelection } from './themes';
 
 const DEFAULT_ENTRY = path.resolve(process.cwd(), 'tokens.ts');
-export type TokensLoader = (filePath?: string) => Promise<DesignTokens>;
+const DEFAULT_CONFIG_NAME = 'default';
+const CONFIG_KEYS = new Set<string>([
+  'log',
+  'source',
+  'include',
+  'tokens',
+  'hooks',
+  'expand',
+  'platforms',
+  'parsers',
+  'preprocessors',
+  'usesDtcg',
+]);
+
+export type StyleDictionaryConfigs =
+  | Config
+  | Config[]
+  | Record<string, Config>;
+
+/** Passed to token modules that default-export a factory function. */
+export interface TokenContext {
+  /** Vite mode, e.g. `development`, `production` or `test`. */
+  mode: string;
+  command: 'build' | 'serve';
+  /** Name of the config being built (`default` for a single config). */
+  config: string;
+  /** Selected dimension values when building a theme permutation. */
+  theme?: ThemeSelection;
+  /** `import.meta.env`-style variables of the Vite config. */
+  env: Record<string, unknown>;
+}
+
+export type TokensFactory = (
+  context: TokenContext,
+) => DesignTokens | Promise<DesignTokens>;
+
+export type TokensLoader = (
+  filePath?: string,
+  context?: TokenContext,
+  exportName?: string,
+) => Promise<DesignTokens>;
+
+/** Export selector that merges every named export into one tree. */
+export const ALL_NAMED_EXPORTS = '*';
 
 export async function parseTokenModule(
   { contents: _contents, filePath }: ParserOptions,
@@ -25,10 +84,23 @@ export async function parseTokenModule(
   return tokens;
 }
 
+export function parseYamlTokens({
+  contents,
+  filePath,
+}: ParserOptions): DesignTokens {
+  const tokens = loadYaml(contents, { filename: filePath });
+  if (!isPlainObject(tokens)) {
+    throw new Error(
+      `[style-dictionary] ${filePath ?? 'YAML source'} must contain a token object`,
+    );
+  }
+  return tokens as DesignTokens;
+}
+
 export function createTokensLoader(
   getServer: () => ViteDevServer | null,
 ): TokensLoader {
-  return async (filePath) => {
+  return async (filePath, context, exportName) => {
     const server = getServer();
     if (!server) {
       throw new Error('[style-dictionary] Vite server is not available');
@@ -41,14 +113,163 @@ export function createTokensLoader(
         entryFile ?? toViteModuleId(server.config.root, sourceFile),
       );
     const module = await server.ssrLoadModule(moduleId);
-    return (module?.default ?? module) as DesignTokens;
+    const evaluate = (exported: unknown) =>
+      // Factories run on every build, so they see the current context.
+      typeof exported === 'function'
+        ? (exported as TokensFactory)(context ?? createTokenContext())
+        : (exported as DesignTokens);
+
+    if (!exportName) return evaluate(module?.default ?? module);
+
+    const names = Object.keys(module ?? {});
+    const namedExports = names.filter((name) => name !== 'default');
+    if (exportName === ALL_NAMED_EXPORTS) {
+      if (namedExports.length === 0) {
+        throw new Error(
+          `[style-dictionary] ${sourceFile} has no named exports to merge`,
+        );
+      }
+      const trees = await Promise.all(
+        namedExports.map((name) => evaluate(module[name])),
+      );
+      return merge({}, ...trees);
+    }
+    if (!names.includes(exportName)) {
+      throw new Error(
+        `[style-dictionary] ${sourceFile} has no export named "${exportName}" (available: ${
+          names.join(', ') || 'none'
+        })`,
+      );
+    }
+    return evaluate(module[exportName]);
+  };
+}
+
+/**
+ * Splits the export selector off a source, e.g. `tokens.ts#light` selects the
+ * `light` export and `tokens.ts#*` merges all named exports.
+ */
+export const parseSourceExport = (
+  source: string,
+): { source: string; exportName?: string } => {
+  const index = source.lastIndexOf('#');
+  if (index === -1) return { source };
+  return {
+    source: source.slice(0, index),
+    exportName: source.slice(index + 1) || undefined,
   };
+};
+
+/**
+ * Returns the export selected for a loaded file by the first source (or glob)
+ * with an export selector that matches it.
+ */
+export function createExportSelector(sources: string[], root: string) {
+  const selectors = sources
+    .map(parseSourceExport)
+    .flatMap(({ source, exportName }): Array<[(id: unknown) => boolean, string]> =>
+      exportName
+        ? [[createFilter(toAbsoluteGlobs(root, [source])), exportName]]
+        : [],
+    );
+  return (file: string): string | undefined =>
+    selectors.find(([include]) => include(path.resolve(file)))?.[1];
+}
+
+export async function loadConfigModule(
+  server: ViteDevServer,
+  configFile: string,
+): Promise<StyleDictionaryConfigs> {
+  const file = path.resolve(server.config.root, configFile);
+  const module = await server.ssrLoadModule(normalizeViteId(file));
+  const configs = module?.default;
+  if (!configs || typeof configs !== 'object') {
+    throw new Error(
+      `[style-dictionary] ${configFile} must export a default config object`,
+    );
+  }
+  return configs as StyleDictionaryConfigs;
 }
 
+const HOOK_CATEGORIES = [
+  'parsers',
+  'preprocessors',
+  'transformGroups',
+  'transforms',
+  'formats',
+  'fileHeaders',
+  'filters',
+  'actions',
+] as const;
+
+/**
+ * Loads hook modules and merges their hooks, later modules overriding earlier
+ * ones. A module may default-export a `Hooks` object or export each category
+ * (`transforms`, `formats`, ...) by name.
+ */
+export async function loadHookModules(
+  server: ViteDevServer,
+  hookFiles: string[],
+): Promise<Hooks> {
+  const modules = await Promise.all(
+    hookFiles.map(async (hookFile) => {
+      const file = path.resolve(server.config.root, hookFile);
+      const module = await server.ssrLoadModule(normalizeViteId(file));
+      const hooks = module?.default ?? module;
+      if (!hooks || typeof hooks !== 'object') {
+        throw new Error(
+          `[style-dictionary] ${hookFile} must export Style Dictionary hooks`,
+        );
+      }
+      return hooks as Hooks;
+    }),
+  );
+  return modules.reduce<Hooks>(mergeHooks, {});
+}
+
+export const mergeHooks = (base: Hooks = {}, extra: Hooks = {}): Hooks =>
+  Object.fromEntries(
+    HOOK_CATEGORIES.filter((category) => base[category] || extra[category]).map(
+      (category) => [category, { ...base[category], ...extra[category] }],
+    ),
+  );
+
+export const createTokenContext = ({
+  mode = 'development',
+  command = 'serve',
+  config = DEFAULT_CONFIG_NAME,
+  theme,
+  env = {},
+}: Partial<TokenContext> = {}): TokenContext => ({
+  mode,
+  command,
+  config,
+  ...(theme && { theme }),
+  env,
+});
+
+// A map of configs is told apart from a single config by its keys: none of
+// them may be a Style Dictionary config option.
+export const isConfigCollection = (configs: StyleDictionaryConfigs) =>
+  Array.isArray(configs) ||
+  (Object.keys(configs).length > 0 &&
+    Object.keys(configs).every((key) => !CONFIG_KEYS.has(key)));
+
+export const normalizeConfigs = (
+  configs: StyleDictionaryConfigs,
+): Array<[string, Config]> => {
+  if (!isConfigCollection(configs)) {
+    return [[DEFAULT_CONFIG_NAME, configs as Config]];
+  }
+  return Array.isArray(configs)
+    ? configs.map((config, index): [string, Config] => [String(index), config])
+    : Object.entries(configs as Record<string, Config>);
+};
+
 export const normalizeSources = (source?: string[] | string) =>
   source ? castArray(source) : [];
 
-const isGlob = (source: string) => /[*?[\]]/.test(source);
+export const isGlob = (source: string) => /[*?[\]]/.test(source);
 
 export async function resolveSourceEntries(
   server: ViteDevServer,
@@ -57,13 +278,17 @@ export async function resolveSourceEntries(
   const sources = normalizeSources(source);
   const { root } = server.config;
   return Promise.all(
-    sources.map(async (entry) => {
-      if (isGlob(entry)) return entry;
+    sources.map(async (source) => {
+      if (isGlob(source)) return source;
+      // Export selectors survive resolution, e.g. `tokens#light` becomes
+      // `/project/tokens/index.ts#light`.
+      const { source: entry, exportName } = parseSourceExport(source);
       const absoluteSource = path.isAbsolute(entry)
         ? entry
         : path.join(root, entry);
-      const resolved = await resolveTokenEntry(server, absoluteSource);
-      return resolved ?? absoluteSource;
+      const resolved =
+        (await resolveTokenEntry(server, absoluteSource)) ?? absoluteSource;
+      return exportName ? `${resolved}#${exportName}` : resolved;
     }),
   );
 }
@@ -78,11 +303,65 @@ export async function isRelevantChange(
   sources: string[],
   changedFile: string,
 ): Promise<boolean> {
+  const affected = await getAffectedSourceSets(
+    server,
+    new Map([['', sources]]),
+    changedFile,
+  );
+  return affected.size > 0;
+}
+
+// Resolves which source sets a changed file belongs to, walking the module
+// graph once from every set's entries instead of once per set. Files a set
+// loaded during its last build (e.g. matches of a glob source) are entries
+// too, so edits to modules they import are caught.
+export async function getAffectedSourceSets(
+  server: ViteDevServer,
+  sourceSets: Map<string, string[]>,
+  changedFile: string,
+  loadedFiles: Map<string, Iterable<string>> = new Map(),
+): Promise<Set<string>> {
   const { root } = server.config;
-  const include = createFilter(toAbsoluteGlobs(root, sources));
-  if (include(changedFile)) return true;
+  const affected = new Set<string>();
+  for (const [name, sources] of sourceSets) {
+    // An empty include list would match every file.
+    if (sources.length === 0) continue;
+    const include = createFilter(toAbsoluteGlobs(root, sources));
+    if (include(changedFile)) affected.add(name);
+  }
+
+  const pending = Array.from(sourceSets).filter(([name]) => !affected.has(name));
+  const entryModules = (
+    await Promise.all(
+      pending.map(async ([name, sources]) => {
+        const entryFiles = [
+          ...(await resolveEntryFiles(server, sources)),
+          ...(loadedFiles.get(name) ?? []),
+        ];
+        return entryFiles.flatMap((file) =>
+          Array.from(server.moduleGraph.getModulesByFile(file) ?? []).map(
+            (mod): [ModuleNode, string] => [mod, name],
+          ),
+        );
+      }),
+    )
+  ).flat();
+  if (entryModules.length === 0) return affected;
+
+  const changedModules = server.moduleGraph.getModulesByFile(changedFile);
+  if (!changedModules?.size) return affected;
+
+  const owners = collectModuleOwners(entryModules);
+  for (const mod of changedModules) {
+    owners.get(mod)?.forEach((name) => affected.add(name));
+  }
+
+  return affected;
+}
 
-  const entryFiles = await Promise.all(
+const resolveEntryFiles = (server: ViteDevServer, sources: string[]) => {
+  const { root } = server.config;
+  return Promise.all(
     sources.filter((source) => !isGlob(source)).map(async (source) => {
       const absoluteSource = path.isAbsolute(source)
         ? source
@@ -91,35 +370,23 @@ export async function isRelevantChange(
       return resolved ?? absoluteSource;
     }),
   );
-  const entryModules = entryFiles.flatMap((file) =>
-    Array.from(server.moduleGraph.getModulesByFile(file) ?? []),
-  );
-  if (entryModules.length === 0) return false;
-
-  const changedModules = server.moduleGraph.getModulesByFile(changedFile);
-  if (!changedModules?.size) return false;
-
-  const tokenGraph = collectModuleGraph(entryModules);
-  for (const mod of changedModules) {
-    if (tokenGraph.has(mod)) return true;
-  }
-
-  return false;
-}
+};
 
-function collectModuleGraph(
-  queue: ModuleNode[],
-  visited: Set<ModuleNode> = new Set<ModuleNode>(),
-): Set<ModuleNode> {
-  if (queue.length === 0) return visited;
+function collectModuleOwners(
+  entries: Array<[ModuleNode, string]>,
+): Map<ModuleNode, Set<string>> {
+  const owners = new Map<ModuleNode, Set<string>>();
+  const queue = [...entries];
+  for (let item = queue.shift(); item; item = queue.shift()) {
+    const [current, name] = item;
+    const names = owners.get(current) ?? new Set<string>();
+    if (names.has(name)) continue;
+    owners.set(current, names.add(name));
 
-  const [current, ...rest] = queue;
-  if (!current || visited.has(current)) {
-    return collectModuleGraph(rest, visited);
+    const next = [...current.importedModules, ...current.ssrImportedModules];
+    queue.push(...next.map((mod): [ModuleNode, string] => [mod, name]));
   }
-
-  const next = [...current.importedModules, ...current.ssrImportedModules];
-  return collectModuleGraph([...rest, ...next], new Set([...visited, current]));
+  return owners;
 }
 
 export function toViteModuleId(root: string, filePath: string) {
@@ -154,14 +421,169 @@ async function resolveTokenEntry(
   return normalizeViteId(resolved.id);
 }
 
-export const getGeneratedFiles = ({ platforms }: Config, root: string): string[] =>
-  Object.values(platforms ?? {})
-    .map(({ buildPath, files }) => ({
+export interface OutputFile {
+  key: string;
+  file: string;
+}
+
+export const getOutputFiles = (
+  { platforms }: Config,
+  root: string,
+): OutputFile[] =>
+  Object.entries(platforms ?? {})
+    .map(([platform, { buildPath, files }]) => ({
+      platform,
       buildPath: path.resolve(root, buildPath || ''),
-      files: castArray(files),
+      files: castArray(files ?? []),
     }))
-    .flatMap(({ buildPath, files }) =>
-      files.map(({ destination }) =>
-        path.resolve(buildPath, destination || ''),
-      ),
+    .flatMap(({ platform, buildPath, files }) =>
+      files.map(({ destination }) => ({
+        key: toOutputKey(platform, destination || ''),
+        file: path.resolve(buildPath, destination || ''),
+      })),
     );
+
+export const getOutputKeys = ({ platforms }: Config): string[] =>
+  Object.entries(platforms ?? {}).flatMap(([platform, { files }]) =>
+    castArray(files ?? []).map(({ destination }) =>
+      toOutputKey(platform, destination || ''),
+    ),
+  );
+
+export const getGeneratedFiles = (config: Config, root: string): string[] =>
+  getOutputFiles(config, root).map(({ file }) => file);
+
+type TokenSource = {
+  tokens?: PreprocessedTokens;
+  usesDtcg?: boolean;
+};
+
+const TOKEN_META_KEYS = ['filePath', 'isSource'];
+
+export function resolveTokenTree({
+  tokens = {},
+  usesDtcg,
+}: TokenSource): DesignTokens {
+  const valueKey = usesDtcg ? '$value' : 'value';
+  const resolveValue = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      // Broken references are reported (or not) by Style Dictionary itself,
+      // as the config's `log.errors.brokenReferences` says.
+      try {
+        return resolveReferences(value, tokens, { usesDtcg });
+      } catch {
+        return value;
+      }
+    }
+    if (Array.isArray(value)) return value.map(resolveValue);
+    if (isPlainObject(value)) {
+      return mapValues(value as Record<string, unknown>, resolveValue);
+    }
+    return value;
+  };
+  const visit = (node: unknown): unknown => {
+    if (!isPlainObject(node)) return node;
+    const group = node as Record<string, unknown>;
+    if (valueKey in group) {
+      return {
+        ...omit(group, TOKEN_META_KEYS),
+        [valueKey]: resolveValue(group[valueKey]),
+      };
+    }
+    return mapValues(group, visit);
+  };
+  return visit(tokens) as DesignTokens;
+}
+
+/** Token tree as authored (aliases kept), without Style Dictionary's metadata. */
+export function getAuthoredTokenTree({
+  tokens = {},
+  usesDtcg,
+}: TokenSource): DesignTokens {
+  const valueKey = usesDtcg ? '$value' : 'value';
+  const visit = (node: unknown): unknown => {
+    if (!isPlainObject(node)) return node;
+    const group = node as Record<string, unknown>;
+    return valueKey in group
+      ? omit(group, TOKEN_META_KEYS)
+      : mapValues(group, visit);
+  };
+  return visit(tokens) as DesignTokens;
+}
+
+const isTokenNode = (node: Record<string, unknown>) =>
+  'value' in node || '$value' in node;
+
+export function flattenTokenTree(
+  tree: DesignTokens,
+  prefix: string[] = [],
+): Map<string, Record<string, unknown>> {
+  const tokens = new Map<string, Record<string, unknown>>();
+  for (const [key, node] of Object.entries(tree)) {
+    if (!isPlainObject(node)) continue;
+    const tokenPath = [...prefix, key];
+    const group = node as Record<string, unknown>;
+    if (isTokenNode(group)) {
+      tokens.set(tokenPath.join('.'), group);
+    } else {
+      flattenTokenTree(group as DesignTokens, tokenPath).forEach((token, name) =>
+        tokens.set(name, token),
+      );
+    }
+  }
+  return tokens;
+}
+
+export interface TokenChange {
+  /** Dot-separated token path. */
+  path: string;
+  /** Resolved value before the change, absent for added tokens. */
+  oldValue?: unknown;
+  /** Resolved value after the change, absent for removed tokens. */
+  newValue?: unknown;
+}
+
+export interface TokenDiff {
+  added: TokenChange[];
+  removed: TokenChange[];
+  /** Tokens whose value or metadata (type, description, ...) changed. */
+  changed: TokenChange[];
+}
+
+const getTokenValue = (token: Record<string, unknown>) =>
+  '$value' in token ? token.$value : token.value;
+
+/** Tokens added, removed or changed between two token trees. */
+export function diffTokenTrees(
+  previous: DesignTokens,
+  next: DesignTokens,
+): TokenDiff {
+  const before = flattenTokenTree(previous);
+  const after = flattenTokenTree(next);
+  const diff: TokenDiff = { added: [], removed: [], changed: [] };
+  for (const [name, token] of before) {
+    const nextToken = after.get(name);
+    if (!nextToken) {
+      diff.removed.push({ path: name, oldValue: getTokenValue(token) });
+    } else if (!isEqual(token, nextToken)) {
+      diff.changed.push({
+        path: name,
+        oldValue: getTokenValue(token),
+        newValue: getTokenValue(nextToken),
+      });
+    }
+  }
+  for (const [name, token] of after) {
+    if (!before.has(name)) {
+      diff.added.push({ path: name, newValue: getTokenValue(token) });
+    }
+  }
+  return diff;
+}
+
+export const getChangedTokenPaths = ({ added, removed, changed }: TokenDiff) =>
+  new Set([...added, ...removed, ...changed].map((change) => change.path));
+
+/** Paths of tokens added, removed or changed between two token trees. */
+export const diffTokenPaths = (previous: DesignTokens, next: DesignTokens) =>
+  getChangedTokenPaths(diffTokenTrees(previous, next));
@@ -0,0 +1,107 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { format } from 'node:util';
+import type { LogLevel, Logger } from 'vite';
+import type { LogConfig } from 'style-dictionary/types';
+
+type ConsoleMethod = 'log' | 'info' | 'warn' | 'error';
+type Level = 'info' | 'warn' | 'error';
+
+const CONSOLE_LEVELS: Record<ConsoleMethod, Level> = {
+  log: 'info',
+  info: 'info',
+  warn: 'warn',
+  error: 'error',
+};
+
+// Style Dictionary prints its warnings through console.log.
+const WARNING_PATTERN = /⚠️|warning|collision|could not|deprecat/i;
+const ANSI_PATTERN = /\u001b\[[\d;]*m/g;
+const STYLE_DICTIONARY_CALLER = /[\\/]style-dictionary[\\/]lib[\\/]/;
+
+export const toVerbosity = (
+  logLevel: LogLevel = 'info',
+): LogConfig['verbosity'] =>
+  logLevel === 'silent' || logLevel === 'error' ? 'silent' : 'default';
+
+const classify = (method: ConsoleMethod, message: string): Level =>
+  CONSOLE_LEVELS[method] === 'info' && WARNING_PATTERN.test(message)
+    ? 'warn'
+    : CONSOLE_LEVELS[method];
+
+// Frames: `Error`, getCaller, the patched console method, its caller.
+const getCaller = () => new Error().stack?.split('\n')[3] ?? '';
+
+interface Build {
+  prefix: string;
+  callers: RegExp;
+  logger: Logger;
+  seen: Set<string>;
+  forwarding: boolean;
+}
+
+const METHODS = Object.keys(CONSOLE_LEVELS) as ConsoleMethod[];
+
+// Builds may overlap (plugin instances with other configs, Vitest projects
+// resolving at once), so the console is patched once while any of them runs,
+// and each message goes to the build it was logged from.
+const builds = new AsyncLocalStorage<Build>();
+let original: Pick<Console, ConsoleMethod> = { ...console };
+let activeBuilds = 0;
+
+const forward =
+  (method: ConsoleMethod) =>
+  (...args: unknown[]) => {
+    const build = builds.getStore();
+    // Vite's logger prints through the console as well.
+    if (!build || build.forwarding || !build.callers.test(getCaller())) {
+      original[method](...args);
+      return;
+    }
+    const message = format(...args).trim();
+    if (!message) return;
+    const level = classify(method, message.replace(ANSI_PATTERN, ''));
+    const key = `${level}:${message}`;
+    if (build.seen.has(key)) return;
+    build.seen.add(key);
+    build.forwarding = true;
+    try {
+      build.logger[level](`${build.prefix} ${message}`);
+    } finally {
+      build.forwarding = false;
+    }
+  };
+
+/**
+ * Creates a function that runs a build while routing Style Dictionary's
+ * console output to a Vite logger. Messages already forwarded by an earlier
+ * build are not repeated. Console output from anything else running
+ * meanwhile (other plugins, token modules, other builds, ...) is printed
+ * untouched.
+ */
+export function createLogForwarder(
+  prefix: string,
+  { callers = STYLE_DICTIONARY_CALLER }: { callers?: RegExp } = {},
+) {
+  const seen = new Set<string>();
+
+  return async <T>(logger: Logger, run: () => Promise<T>): Promise<T> => {
+    if (activeBuilds++ === 0) {
+      original = { ...console };
+      METHODS.forEach((method) => {
+        console[method] = forward(method);
+      });
+    }
+    try {
+      return await builds.run(
+        { prefix, callers, logger, seen, forwarding: false },
+        run,
+      );
+    } finally {
+      if (--activeBuilds === 0) {
+        METHODS.forEach((method) => {
+          console[method] = original[method];
+        });
+      }
+    }
+  };
+}
@@ -0,0 +1,168 @@
+import { createHash } from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type StyleDictionary from 'style-dictionary';
+import type { File, TransformedToken } from 'style-dictionary/types';
+import { toOutputKey } from './virtual-modules';
+
+export const hashContent = (content: string) =>
+  createHash('sha256').update(content).digest('hex');
+
+export async function formatOutputs(
+  sd: StyleDictionary,
+  platforms: string[] = Object.keys(sd.platforms ?? {}),
+): Promise<Map<string, string>> {
+  await sd.hasInitialized;
+  const outputs = new Map<string, string>();
+  await Promise.all(
+    platforms.map(async (platform) => {
+      const { files = [] } = sd.getPlatformConfig(platform);
+      const formatted = await sd.formatPlatform(platform);
+      formatted.forEach(({ output }, index) => {
+        const destination = files[index]?.destination;
+        if (!destination || typeof output !== 'string') return;
+        outputs.set(toOutputKey(platform, destination), output);
+      });
+    }),
+  );
+  return outputs;
+}
+
+const someAsync = async <T>(
+  items: T[],
+  predicate: (item: T) => boolean | Promise<boolean>,
+) => {
+  for (const item of items) {
+    if (await predicate(item)) return true;
+  }
+  return false;
+};
+
+const acceptsToken = (
+  sd: StyleDictionary,
+  files: File[],
+  token: TransformedToken,
+) =>
+  // getPlatformConfig has already resolved named and object filters.
+  someAsync(files, ({ filter }) =>
+    typeof filter === 'function' ? filter(token, sd.options) : true,
+  );
+
+/**
+ * Paths of the tokens accepted by at least one file of each platform, so a
+ * later build can tell which platforms a changed token was part of.
+ */
+export async function getPlatformTokenPaths(
+  sd: StyleDictionary,
+  platforms: string[],
+): Promise<Map<string, Set<string>>> {
+  await sd.hasInitialized;
+  const entries = await Promise.all(
+    platforms.map(async (platform): Promise<[string, Set<string>]> => {
+      const { files = [] } = sd.getPlatformConfig(platform);
+      const { allTokens } = await sd.getPlatformTokens(platform);
+      const accepted = await Promise.all(
+        allTokens.map((token) => acceptsToken(sd, files, token)),
+      );
+      return [
+        platform,
+        new Set(
+          allTokens
+            .filter((_, index) => accepted[index])
+            .map((token) => token.path.join('.')),
+        ),
+      ];
+    }),
+  );
+  return new Map(entries);
+}
+
+/**
+ * Returns the platforms with at least one file whose filter accepts a changed
+ * token, or accepted it in the previous build (`previousTokens`, from
+ * getPlatformTokenPaths). Platforms are rebuilt conservatively when a changed
+ * token is missing from their dictionary (removed, or dropped by a
+ * preprocessor).
+ */
+export async function getAffectedPlatforms(
+  sd: StyleDictionary,
+  changedTokens: Set<string>,
+  previousTokens = new Map<string, Set<string>>(),
+): Promise<string[]> {
+  await sd.hasInitialized;
+  const platforms = Object.keys(sd.platforms ?? {});
+  if (changedTokens.size === 0) return [];
+
+  const affected = await Promise.all(
+    platforms.map(async (platform) => {
+      const previous = previousTokens.get(platform);
+      if (previous && [...changedTokens].some((name) => previous.has(name))) {
+        return true;
+      }
+      const { files = [] } = sd.getPlatformConfig(platform);
+      const { allTokens } = await sd.getPlatformTokens(platform);
+      const tokens = allTokens.filter((token: TransformedToken) =>
+        changedTokens.has(token.path.join('.')),
+      );
+      if (tokens.length < changedTokens.size) return true;
+      return someAsync(tokens, (token) => acceptsToken(sd, files, token));
+    }),
+  );
+  return platforms.filter((_, index) => affected[index]);
+}
+
+/**
+ * Hashes outputs and compares them with the hashes of the previous build, or
+ * with what `readCurrent` returns when given: files on disk may have been
+ * deleted or edited since they were written. Returns the new hashes of the
+ * outputs whose content changed.
+ */
+export async function diffOutputHashes(
+  outputs: Map<string, string>,
+  hashes: Map<string, string>,
+  readCurrent?: (key: string) => Promise<string | undefined>,
+): Promise<Map<string, string>> {
+  const changed = new Map<string, string>();
+  for (const [key, content] of outputs) {
+    const hash = hashContent(content);
+    let previous = hashes.get(key);
+    if (readCurrent) {
+      const current = await readCurrent(key);
+      previous = current === undefined ? undefined : hashContent(current);
+    }
+    if (previous !== hash) changed.set(key, hash);
+  }
+  return changed;
+}
+
+export const readOutputFile = (file: string) =>
+  fs.readFile(file, 'utf8').catch(() => undefined);
+
+export async function writeOutputFile(file: string, content: string) {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, content);
+}
+
+export const removeOutputFile = (file: string) =>
+  fs.rm(file, { force: true });
+
+// Mirrors Style Dictionary's own buildPlatform, which runs actions after
+// writing the platform's files.
+export async function performPlatformActions(
+  sd: StyleDictionary,
+  platforms: string[],
+) {
+  await Promise.all(
+    platforms.map(async (platform) => {
+      const platformConfig = sd.getPlatformConfig(platform);
+      const dictionary = await sd.getPlatformTokens(platform);
+      await Promise.all(
+        (platformConfig.actions ?? []).map((action) =>
+          typeof action !== 'string' && typeof action.do === 'function'
+            ? action.do(dictionary, platformConfig, sd.options, sd.volume)
+            : undefined,
+        ),
+      );
+    }),
+  );
+}
@@ -1,79 +1,998 @@
 import { createServer } from 'vite';
+import { partition, uniq } from 'lodash-es';
 import type {
   Plugin,
+  LogLevel,
   Logger,
   ResolvedConfig,
   ViteDevServer,
 } from 'vite';
 import StyleDictionary, { type Config } from 'style-dictionary';
+import type { DesignTokens, Hooks } from 'style-dictionary/types';
+import path from 'node:path';
 import {
+  createExportSelector,
+  createTokenContext,
   createTokensLoader,
+  diffTokenPaths,
+  diffTokenTrees,
+  getAuthoredTokenTree,
+  getChangedTokenPaths,
+  getAffectedSourceSets,
   getGeneratedFiles,
-  isRelevantChange,
+  getOutputFiles,
+  getOutputKeys,
+  isConfigCollection,
+  isGlob,
+  loadConfigModule,
+  loadHookModules,
+  mergeHooks,
+  normalizeConfigs,
   normalizeSources,
+  parseSourceExport,
   parseTokenModule,
+  parseYamlTokens,
   resolveSourceEntries,
+  resolveTokenTree,
   toAbsoluteGlobs,
+  type StyleDictionaryConfigs,
+  type TokenDiff,
   type TokensLoader,
 } from './internal';
+import {
+  RESOLVED_TOKENS_MODULE_ID,
+  TOKENS_MODULE_ID,
+  parseVirtualModuleId,
+  renderTokensModule,
+  toModuleSpecifier,
+  toTokensKey,
+  toVirtualModuleId,
+} from './virtual-modules';
+import { renderDeclarations } from './declarations';
+import {
+  UPDATE_EVENT,
+  type ConfigUpdate,
+  type StyleDictionaryUpdatePayload,
+} from './hmr';
+import {
+  createThemePermutations,
+  type ThemeDimensions,
+  type ThemeSelection,
+} from './themes';
+import { createLogForwarder, toVerbosity } from './logging';
+import { createBuildQueue } from './build-queue';
+import {
+  diffOutputHashes,
+  formatOutputs,
+  getAffectedPlatforms,
+  getPlatformTokenPaths,
+  performPlatformActions,
+  readOutputFile,
+  removeOutputFile,
+  writeOutputFile,
+} from './outputs';
+import {
+  TokenBuildError,
+  toErrorPayload,
+  toTokenBuildError,
+} from './errors';
+import {
+  formatValidationWarnings,
+  toValidationError,
+  validateTokens,
+  type TokenDiagnostic,
+} from './validation';
+import {
+  getCacheFile,
+  hashInputs,
+  isCacheEntryFresh,
+  readCacheEntry,
+  withCacheLock,
+  writeCacheEntry,
+} from './build-cache';
+import {
+  INSPECTOR_ROUTE,
+  createInspectorMiddleware,
+  inspectTokens,
+  type InspectedConfig,
+  type InspectedToken,
+} from './inspector';
 
 const PLUGIN_NAME = 'style-dictionary-plugin';
 const PARSER_NAME = 'style-dictionary-vite-loader';
-const MATCH_ANY_FILE = /./;
+const YAML_PARSER_NAME = 'style-dictionary-yaml';
+const VALIDATOR_NAME = 'style-dictionary-vite-validator';
+const LOG_PREFIX = '[vite:style-dictionary]';
+const SCRIPT_MODULE_PATTERN = /\.[cm]?[jt]sx?$/;
+const YAML_PATTERN = /\.ya?ml$/;
+const DEFAULT_DTS_FILE = 'style-dictionary.d.ts';
 
-export default function styleDictionaryPlugin(sdConfig: Config): Plugin {
+export interface StyleDictionaryPluginOptions {
+  /**
+   * Keep platform outputs in memory and serve them as
+   * `virtual:style-dictionary/<platform>/<destination>` modules instead of
+   * writing them to each platform's `buildPath`; imports of the generated
+   * paths resolve to them too. Platform actions are skipped.
+   */
+  inMemory?: boolean;
+  /**
+   * During `vite build`, emit platform outputs as Rollup assets (hashed and
+   * listed in the manifest) instead of writing them to `buildPath`. Imports
+   * of the generated paths bundle the in-memory outputs.
+   */
+  emitAssets?: boolean;
+  /**
+   * Theme dimensions (brand, mode, density, ...) mapped to source sets. Every
+   * permutation is built as its own config, named by its values joined with
+   * `-`, with `{dimension}` placeholders filled in `buildPath`/`destination`.
+   */
+  themes?: ThemeDimensions;
+  /**
+   * Reject from `configResolved` when token generation fails during
+   * `vite build` or a test run, instead of logging and continuing.
+   * @default true
+   */
+  strict?: boolean;
+  /**
+   * Treat Style Dictionary warnings (broken references, name collisions,
+   * filtered references) and validation warnings as build failures.
+   * @default false
+   */
+  failOnWarnings?: boolean;
+  /**
+   * Validate the parsed tokens before building: token names, DTCG `$type`s
+   * and `$value`s (composites included) and circular aliases. Invalid names
+   * and circular aliases fail the build with each token's path and source
+   * file; types and values outside the DTCG spec are logged as warnings, and
+   * fail the build with `failOnWarnings`.
+   * @default true
+   */
+  validate?: boolean;
+  /**
+   * Token sources loaded through Vite, so they can import modules and use
+   * aliases. Other sources are parsed by Style Dictionary: JSON/JSON5 by its
+   * own loader, YAML by the plugin, anything else by the config's parsers.
+   * @default /\.[cm]?[jt]sx?$/
+   */
+  modulePattern?: RegExp;
+  /**
+   * Modules (relative to the Vite root) exporting Style Dictionary hooks:
+   * transforms, formats, actions and so on. They are loaded through Vite, so
+   * TS and aliases work, merged into each config's `hooks`, and reloaded when
+   * they or their imports change.
+   */
+  hookModules?: string[] | string;
+  /**
+   * Write a declaration file typing the virtual tokens modules with the
+   * resolved token tree, so typos in token paths fail `tsc`. Pass a path
+   * relative to the Vite root, or `true` for `style-dictionary.d.ts`.
+   * Regenerated on every build.
+   */
+  dts?: boolean | string;
+  /**
+   * Serve a token inspector at `/__style-dictionary/` on the dev server:
+   * every token's authored and resolved value, alias chain, source file, and
+   * the variable names and values it produced on each platform.
+   * @default true
+   */
+  inspector?: boolean;
+  /**
+   * Skip `vite build`/test-run builds whose inputs and outputs did not change
+   * since the last one, keyed by the configs, options and Style Dictionary
+   * version and the content of every file the build read. Entries are kept
+   * in Vite's `cacheDir` (`node_modules/.vite/style-dictionary`). Configs
+   * passed as a file path are always built.
+   * @default true
+   */
+  cache?: boolean;
+  /**
+   * Rebuild when token sources change while Vitest runs in watch mode. Test
+   * runs otherwise build once, when the config is resolved.
+   * @default true
+   */
+  testWatch?: boolean;
+  /**
+   * Milliseconds to wait for further changes before rebuilding. Changes within
+   * this window are coalesced, and builds never overlap.
+   * @default 50
+   */
+  debounce?: number;
+}
+
+interface BuildOptions {
+  /** Names of the configs to build, all of them when omitted. */
+  names?: Set<string>;
+  /** Dev server HMR channel that receives error overlay payloads. */
+  hot?: ViteDevServer['hot'];
+  /** Throw on the first failure instead of logging it. */
+  failFast?: boolean;
+}
+
+interface ConfigTarget {
+  name: string;
+  sdConfig: Config;
+  config: Config;
+  sources: string[];
+  /** Prefix of this config's virtual output modules (`<name>/` when named). */
+  scope: string;
+  tokenTree: DesignTokens;
+  /** Token tree as authored, to catch aliases re-pointed to equal values. */
+  authoredTree: DesignTokens;
+  /** Paths of the tokens each platform's files accepted in the last build. */
+  platformTokens: Map<string, Set<string>>;
+  outputs: Map<string, string>;
+  /** Content hashes of the outputs produced by previous builds. */
+  hashes: Map<string, string>;
+  /** Token modules loaded by the parser during the last build. */
+  loadedFiles: Set<string>;
+  /** Output keys whose content changed in the last build. */
+  changedOutputs: Set<string>;
+  tokensChanged: boolean;
+  /** Tokens added, removed or changed by the last build. */
+  tokenDiff: TokenDiff;
+  /** Format every platform on the next build, e.g. after a config change. */
+  formatAll: boolean;
+  /** Export selected by the `#export` suffix of the source a file matched. */
+  selectExport: (file: string) => string | undefined;
+  /** Describes the tokens of the last successful build. */
+  inspect?: () => Promise<InspectedToken[]>;
+  /** Validation warnings of the last build. */
+  validationWarnings: TokenDiagnostic[];
+}
+
+/** Exposed as the plugin's `api`, e.g. for the headless build. */
+export interface StyleDictionaryPluginApi {
+  /** Builds every config once with a temporary token server. */
+  build: (config: ResolvedConfig) => Promise<void>;
+  /** Resolved token trees of the last builds, keyed by config name. */
+  getTokens: () => Record<string, DesignTokens>;
+  /** Describes the tokens of every config's last successful build. */
+  inspect: () => Promise<InspectedConfig[]>;
+  /**
+   * Calls `listener` with the `style-dictionary:update` payload after every
+   * dev server rebuild. Returns a function that removes the listener.
+   */
+  onUpdate: (
+    listener: (payload: StyleDictionaryUpdatePayload) => void,
+  ) => () => void;
+}
+
+/**
+ * @param sdConfigs Style Dictionary config(s), or the path of a module that
+ * default-exports them. A config file is loaded through Vite, relative to the
+ * project root, and reloaded whenever it or one of its imports changes.
+ */
+export default function styleDictionaryPlugin(
+  sdConfigs: StyleDictionaryConfigs | string,
+  {
+    inMemory = false,
+    emitAssets = false,
+    themes,
+    strict = true,
+    failOnWarnings = false,
+    validate = true,
+    modulePattern = SCRIPT_MODULE_PATTERN,
+    hookModules,
+    dts = false,
+    inspector = true,
+    cache = true,
+    testWatch = true,
+    debounce = 50,
+  }: StyleDictionaryPluginOptions = {},
+): Plugin<StyleDictionaryPluginApi> & { api: StyleDictionaryPluginApi } {
   let devServer: ViteDevServer | null = null;
   const loadTokens = createTokensLoader(() => devServer);
-  const config = withSilentLogging(addViteParser(sdConfig, loadTokens));
-  const sources = normalizeSources(config.source);
+  const configFile = typeof sdConfigs === 'string' ? sdConfigs : null;
+  let configStale = configFile !== null;
+  const hookFiles = normalizeSources(hookModules);
+  const dtsFile = dts === true ? DEFAULT_DTS_FILE : dts || null;
+  let hooks: Hooks | undefined;
+  let named = false;
+  let targets: ConfigTarget[] = [];
+  let keepInMemory = inMemory;
+  let viteConfig: ResolvedConfig | null = null;
+
+  // The token server runs in its own mode, so the context describes the
+  // user's Vite config instead.
+  const getTokenContext = (name: string, theme?: ThemeSelection) => {
+    const { mode, command, env } = viteConfig ?? devServer?.config ?? {};
+    return createTokenContext({ mode, command, config: name, theme, env });
+  };
+
+  // Targets that keep their name across config reloads keep their previous
+  // tokens, hashes and outputs, so unchanged outputs are still skipped.
+  const setConfigs = (configs: StyleDictionaryConfigs) => {
+    const previous = new Map(targets.map((target) => [target.name, target]));
+    named = Boolean(themes) || isConfigCollection(configs);
+    targets = expandConfigs(configs, themes).map(
+      ([name, sdConfig, theme]): ConfigTarget => {
+        const loadedFiles = new Set<string>();
+        let baseConfig = failOnWarnings
+          ? withFailingWarnings(sdConfig)
+          : sdConfig;
+        if (validate) {
+          baseConfig = withValidation(
+            baseConfig,
+            failOnWarnings,
+            (warnings) => {
+              target.validationWarnings = warnings;
+            },
+          );
+        }
+        const config = addParsers(
+          baseConfig,
+          modulePattern,
+          (filePath) => {
+            if (filePath) loadedFiles.add(filePath);
+            return loadTokens(
+              filePath,
+              getTokenContext(name, theme),
+              filePath ? target.selectExport(filePath) : undefined,
+            );
+          },
+        );
+        const keys = new Set(getOutputKeys(sdConfig));
+        const {
+          tokenTree = {},
+          authoredTree = {},
+          hashes = new Map(),
+          outputs = new Map(),
+        } = previous.get(name) ?? {};
+        const target: ConfigTarget = {
+          name,
+          sdConfig,
+          config,
+          sources: uniq(
+            normalizeSources(config.source).map(
+              (source) => parseSourceExport(source).source,
+            ),
+          ),
+          scope: named ? `${name}/` : '',
+          tokenTree,
+          authoredTree,
+          platformTokens: new Map(),
+          outputs: new Map([...outputs].filter(([key]) => keys.has(key))),
+          hashes: new Map([...hashes].filter(([key]) => keys.has(key))),
+          loadedFiles,
+          changedOutputs: new Set(),
+          tokensChanged: false,
+          tokenDiff: { added: [], removed: [], changed: [] },
+          formatAll: true,
+          selectExport: () => undefined,
+          validationWarnings: [],
+        };
+        return target;
+      },
+    );
+  };
+  if (typeof sdConfigs !== 'string') setConfigs(sdConfigs);
+
+  const reloadConfig = async (server: ViteDevServer, file: string) => {
+    const { root } = server.config;
+    const previousFiles = targets.flatMap((target) =>
+      getGeneratedFiles(target.sdConfig, root),
+    );
+    setConfigs(await loadConfigModule(server, file));
+    if (keepInMemory) return;
+    // Outputs of removed platforms (or files) would otherwise linger.
+    const currentFiles = new Set(
+      targets.flatMap((target) => getGeneratedFiles(target.sdConfig, root)),
+    );
+    await Promise.all(
+      previousFiles
+        .filter((output) => !currentFiles.has(output))
+        .map(removeOutputFile),
+    );
+  };
+
+  const writeDeclarations = async (file: string) => {
+    const modules = named
+      ? [
+          {
+            id: TOKENS_MODULE_ID,
+            tree: Object.fromEntries(
+              targets.map((target) => [target.name, target.tokenTree]),
+            ),
+          },
+          ...targets.map((target) => ({
+            id: toModuleSpecifier(toTokensKey(target.name)),
+            tree: target.tokenTree,
+          })),
+        ]
+      : [{ id: TOKENS_MODULE_ID, tree: targets[0]?.tokenTree ?? {} }];
+    const content = renderDeclarations(modules);
+    // Rewriting identical declarations would only wake up the type checker.
+    if ((await readOutputFile(file)) === content) return;
+    await writeOutputFile(file, content);
+  };
+
+  const watchSources = (server: ViteDevServer) => {
+    const sources = uniq(targets.flatMap((target) => target.sources));
+    server.watcher.add(
+      toAbsoluteGlobs(server.config.root, [
+        ...(configFile ? [configFile] : []),
+        ...hookFiles,
+        ...sources,
+      ]),
+    );
+  };
+
+  // Files as reported to clients: relative to the root, or the specifiers of
+  // in-memory outputs.
+  const getChangedFiles = (root: string, target: ConfigTarget) => {
+    const files = new Map(
+      getOutputFiles(target.sdConfig, root).map(({ key, file }) => [key, file]),
+    );
+    return Array.from(target.changedOutputs, (key) =>
+      keepInMemory
+        ? toModuleSpecifier(`${target.scope}${key}`)
+        : path
+            .relative(root, files.get(key) ?? path.resolve(root, key))
+            .split(path.sep)
+            .join('/'),
+    );
+  };
+
+  const updateListeners = new Set<
+    (payload: StyleDictionaryUpdatePayload) => void
+  >();
+  let reportedError = false;
+  const forwardLogs = createLogForwarder(LOG_PREFIX);
+
+  const build = async (
+    logger: Logger,
+    server: ViteDevServer,
+    { names, hot, failFast = false }: BuildOptions = {},
+  ) => {
+    let failed = false;
+    const fail = (error: unknown, summary: string) => {
+      const buildError = toTokenBuildError(error, {});
+      const message = `${LOG_PREFIX} ${summary}: ${buildError.message}`;
+      if (failFast) {
+        throw new TokenBuildError(message, {
+          cause: buildError.cause,
+          token: buildError.token,
+          reference: buildError.reference,
+          filePath: buildError.filePath,
+        });
+      }
+      logger.error(message, { error: buildError });
+      hot?.send({ type: 'error', err: toErrorPayload(buildError, LOG_PREFIX) });
+      failed = true;
+    };
+
+    if (configFile && configStale) {
+      try {
+        await reloadConfig(server, configFile);
+        configStale = false;
+        // A new config may change any output, so every config is rebuilt and
+        // reported as part of the batch.
+        targets.forEach((target) => names?.add(target.name));
+      } catch (error) {
+        fail(error, `Loading ${configFile} failed`);
+      }
+    }
+
+    if (hookFiles.length > 0 && !failed) {
+      try {
+        hooks = await loadHookModules(server, hookFiles);
+      } catch (error) {
+        fail(error, 'Loading hook modules failed');
+      }
+    }
+
+    const selected = failed
+      ? []
+      : targets.filter((target) => !names || names.has(target.name));
+    const built: ConfigTarget[] = [];
+    for (const target of selected) {
+      target.loadedFiles.clear();
+      try {
+        const entries = await resolveSourceEntries(server, target.config.source);
+        target.selectExport = createExportSelector(entries, server.config.root);
+        const result = await forwardLogs(logger, () =>
+          buildStyleDictionary(target, server, {
+            inMemory: keepInMemory,
+            hooks,
+            sources: entries.map((entry) => parseSourceExport(entry).source),
+          }),
+        );
+        target.tokensChanged = result.changedTokens.size > 0;
+        target.tokenDiff = result.tokenDiff;
+        target.tokenTree = result.tokenTree;
+        target.authoredTree = result.authoredTree;
+        result.platformTokens.forEach((paths, platform) =>
+          target.platformTokens.set(platform, paths),
+        );
+        target.inspect = result.inspect;
+        if (target.validationWarnings.length > 0) {
+          const warnings = formatValidationWarnings(target.validationWarnings);
+          logger.warnOnce(`${LOG_PREFIX} ${warnings}`);
+        }
+        built.push(target);
+        target.formatAll = false;
+        target.changedOutputs = new Set(result.changedHashes.keys());
+        result.changedHashes.forEach((hash, key) => target.hashes.set(key, hash));
+        if (keepInMemory) {
+          result.outputs.forEach((output, key) => target.outputs.set(key, output));
+        }
+      } catch (error) {
+        fail(error, `Build failed${named ? ` for "${target.name}"` : ''}`);
+      }
+    }
+    if (dtsFile && built.length > 0) {
+      try {
+        await writeDeclarations(path.resolve(server.config.root, dtsFile));
+      } catch (error) {
+        fail(error, `Writing ${dtsFile} failed`);
+      }
+    }
+    // An update payload dismisses the error overlay in connected clients.
+    if (hot && reportedError && !failed) hot.send({ type: 'update', updates: [] });
+    if (hot) reportedError = failed;
+    if (hot && built.length > 0) {
+      const { root } = server.config;
+      const payload: StyleDictionaryUpdatePayload = {
+        configs: built.map(
+          (target): ConfigUpdate => ({
+            config: target.name,
+            ...target.tokenDiff,
+            files: getChangedFiles(root, target),
+          }),
+        ),
+      };
+      hot.send({ type: 'custom', event: UPDATE_EVENT, data: payload });
+      updateListeners.forEach((listener) => listener(payload));
+    }
+    return !failed;
+  };
+
+  // Everything besides the files read that shapes a build's outputs. Config
+  // files are only known once loaded through the token server.
+  const getBuildCacheFile = (resolved: ResolvedConfig) =>
+    cache && typeof sdConfigs !== 'string' && resolved.cacheDir
+      ? getCacheFile(resolved.cacheDir, {
+          styleDictionary: StyleDictionary.VERSION,
+          sdConfigs,
+          options: {
+            themes,
+            failOnWarnings,
+            validate,
+            modulePattern,
+            hookModules,
+            dts,
+            keepInMemory,
+          },
+          mode: resolved.mode,
+          command: resolved.command,
+          env: resolved.env,
+          resolve: resolved.resolve,
+          define: resolved.define,
+        })
+      : null;
+
+  const restoreCachedBuild = async (root: string, file: string) => {
+    const entry = await readCacheEntry(file);
+    if (!entry || !(await isCacheEntryFresh(root, entry))) return false;
+    const cached = new Map(
+      entry.targets.map((target) => [target.name, target]),
+    );
+    // A partly restored state is rebuilt from scratch anyway.
+    for (const target of targets) {
+      const restored = cached.get(target.name);
+      if (!restored) return false;
+      target.tokenTree = restored.tokenTree;
+      target.outputs = new Map(Object.entries(restored.outputs ?? {}));
+    }
+    return true;
+  };
+
+  // Inputs are every module the token server loaded (token, hook and config
+  // modules and their imports), the files and globs of every source, and the
+  // Vite config.
+  const saveCachedBuild = async (
+    resolved: ResolvedConfig,
+    server: ViteDevServer,
+    file: string,
+  ) => {
+    const { root } = resolved;
+    const sources = targets.flatMap((target) =>
+      [
+        ...normalizeSources(target.config.source),
+        ...normalizeSources(target.config.include),
+      ].map((source) => parseSourceExport(source).source),
+    );
+    const modules = Array.from(
+      server.moduleGraph.idToModuleMap.values(),
+      (mod) => mod.file,
+    ).filter((file): file is string => Boolean(file && path.isAbsolute(file)));
+    const inputs = await hashInputs(root, {
+      files: uniq([
+        ...modules,
+        ...sources
+          .filter((source) => !isGlob(source))
+          .map((source) => path.resolve(root, source)),
+        ...(resolved.configFile
+          ? [resolved.configFile, ...resolved.configFileDependencies]
+          : []),
+      ]),
+      globs: uniq(sources.filter(isGlob)),
+    });
+    const outputs = await hashInputs(root, {
+      files: [
+        ...(keepInMemory
+          ? []
+          : targets.flatMap((target) =>
+              getGeneratedFiles(target.sdConfig, root),
+            )),
+        ...(dtsFile ? [path.resolve(root, dtsFile)] : []),
+      ],
+      globs: [],
+    });
+    await writeCacheEntry(file, {
+      inputs,
+      outputs,
+      targets: targets.map((target) => ({
+        name: target.name,
+        tokenTree: target.tokenTree,
+        ...(keepInMemory && { outputs: Object.fromEntries(target.outputs) }),
+      })),
+    });
+  };
+
+  // Builds every config once with a temporary token server, as `vite build`
+  // and test runs do.
+  const buildWithTokenServer = (
+    resolved: ResolvedConfig,
+    cacheFile: string | null,
+  ) =>
+    withTokenServer(resolved, async (server) => {
+      devServer = server;
+      try {
+        const succeeded = await build(resolved.logger, server, {
+          failFast: strict,
+        });
+        if (cacheFile && succeeded) {
+          await saveCachedBuild(resolved, server, cacheFile).catch((error) =>
+            resolved.logger.warn(
+              `${LOG_PREFIX} Writing the build cache failed: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+            ),
+          );
+        }
+      } finally {
+        devServer = null;
+      }
+    });
+
+  // Builds of the same configs in the same root write the same files, so they
+  // take turns, whether they come from other plugin instances (every project
+  // of a Vitest workspace) or other processes.
+  const withBuildLock = <T>(
+    resolved: ResolvedConfig,
+    task: () => Promise<T>,
+  ) =>
+    resolved.cacheDir
+      ? withCacheLock(
+          getCacheFile(resolved.cacheDir, {
+            lock: true,
+            root: resolved.root,
+            sdConfigs,
+          }),
+          task,
+        )
+      : task();
+
+  // Skips the build when the cache shows nothing changed. As builds take
+  // turns, when Vitest resolves the config for many projects at once only the
+  // first one builds.
+  const buildOnce = (resolved: ResolvedConfig) =>
+    withBuildLock(resolved, async () => {
+      const cacheFile = getBuildCacheFile(resolved);
+      if (cacheFile && (await restoreCachedBuild(resolved.root, cacheFile))) {
+        resolved.logger.info(
+          `${LOG_PREFIX} Tokens unchanged, using cached outputs`,
+        );
+        return;
+      }
+      await buildWithTokenServer(resolved, cacheFile);
+    });
+
+  const inspectConfigs = () =>
+    Promise.all(
+      targets.map(
+        async (target): Promise<InspectedConfig> => ({
+          name: target.name,
+          tokens: (await target.inspect?.()) ?? [],
+        }),
+      ),
+    );
+
+  const rebuildQueue = createBuildQueue<string>(async (names) => {
+    const server = devServer;
+    if (!server) return;
+    const reload = configStale;
+    // In Vitest's watch mode, every project's server rebuilds on a change.
+    await withBuildLock(server.config, () =>
+      build(server.config.logger, server, { names, hot: server.hot }),
+    );
+    if (reload) watchSources(server);
+  }, debounce);
+
+  const getChangedModules = (server: ViteDevServer, target: ConfigTarget) => {
+    const files = new Map(
+      getOutputFiles(target.sdConfig, server.config.root).map(
+        ({ key, file }) => [key, file],
+      ),
+    );
+    const outputIds = Array.from(target.changedOutputs, (key) =>
+      keepInMemory ? toVirtualModuleId(`${target.scope}${key}`) : files.get(key),
+    );
+    const tokensId = target.tokensChanged
+      ? toVirtualModuleId(toTokensKey(named ? target.name : undefined))
+      : undefined;
+    return [...outputIds, tokensId].map((id) =>
+      id ? server.moduleGraph.getModuleById(id) : undefined,
+    );
+  };
+
+  /**
+   * Queues a rebuild of the configs affected by `file`. Resolves to
+   * `undefined` when the file is irrelevant, and otherwise to the rebuilt
+   * batch (`null` when a later change in the same batch reports it).
+   */
+  const rebuildAffected = async (server: ViteDevServer, file: string) => {
+    const names = targets.map((target) => target.name);
+    const pluginFiles = await getAffectedSourceSets(
+      server,
+      new Map([
+        ['config', configFile ? [configFile] : []],
+        ['hooks', hookFiles],
+      ]),
+      file,
+    );
+    if (pluginFiles.size > 0) {
+      if (pluginFiles.has('config')) configStale = true;
+      // New hooks can change any output without changing a single token.
+      targets.forEach((target) => {
+        target.formatAll = true;
+      });
+      return rebuildQueue.schedule(names);
+    }
+    const affected = await getAffectedSourceSets(
+      server,
+      new Map(targets.map((target) => [target.name, target.sources])),
+      file,
+      new Map(targets.map((target) => [target.name, target.loadedFiles])),
+    );
+    if (affected.size === 0) return undefined;
+    return rebuildQueue.schedule(affected);
+  };
+
+  const getUpdatedModules = (server: ViteDevServer, batch: Set<string>) => {
+    const selected = targets.filter((target) => batch.has(target.name));
+    const { moduleGraph } = server;
+    const tokensChanged = selected.some((target) => target.tokensChanged);
+    const modules = [
+      ...selected.flatMap((target) => getChangedModules(server, target)),
+      named && tokensChanged
+        ? moduleGraph.getModuleById(RESOLVED_TOKENS_MODULE_ID)
+        : undefined,
+    ].filter((mod): mod is NonNullable<typeof mod> => Boolean(mod));
+    // Virtual modules have no file for the watcher to invalidate.
+    modules
+      .filter((mod) => mod.id?.startsWith('\0'))
+      .forEach((mod) => moduleGraph.invalidateModule(mod));
+    return modules;
+  };
+
+  const reloadAffected = async (server: ViteDevServer, file: string) => {
+    try {
+      const batch = await rebuildAffected(server, file);
+      if (!batch) return;
+      await Promise.all(
+        getUpdatedModules(server, batch).map((mod) => server.reloadModule(mod)),
+      );
+    } catch (error) {
+      server.config.logger.error(
+        `${LOG_PREFIX} Rebuild failed: ${error instanceof Error ? error.message : String(error)}`,
+        { error: error instanceof Error ? error : undefined },
+      );
+    }
+  };
+
+  const loadVirtualModule = (key: string): string | undefined => {
+    if (key === toTokensKey()) {
+      return renderTokensModule(
+        named
+          ? Object.fromEntries(
+              targets.map((target) => [target.name, target.tokenTree]),
+            )
+          : (targets[0]?.tokenTree ?? {}),
+      );
+    }
+    for (const target of targets) {
+      if (named && key === toTokensKey(target.name)) {
+        return renderTokensModule(target.tokenTree);
+      }
+      if (!key.startsWith(target.scope)) continue;
+      const output = target.outputs.get(key.slice(target.scope.length));
+      if (output !== undefined) return output;
+    }
+    return undefined;
+  };
+
+  const findOutputFile = (files: string[], root: string) => {
+    for (const target of targets) {
+      for (const { key, file } of getOutputFiles(target.sdConfig, root)) {
+        if (files.includes(file)) return { target, key };
+      }
+    }
+    return undefined;
+  };
 
   return {
     name: PLUGIN_NAME,
     enforce: 'pre',
-    async configureServer(server) {
-      if (isTestRun(server.config)) return;
-      devServer = server;
-      server.watcher.add(toAbsoluteGlobs(server.config.root, sources));
-      await buildStyleDictionary(config, server.config.logger, server);
+    api: {
+      build: async (resolved) => {
+        viteConfig = resolved;
+        await buildOnce(resolved);
+      },
+      getTokens: () =>
+        Object.fromEntries(
+          targets.map((target) => [target.name, target.tokenTree]),
+        ),
+      inspect: inspectConfigs,
+      onUpdate: (listener) => {
+        updateListeners.add(listener);
+        return () => updateListeners.delete(listener);
+      },
     },
-    async configResolved(resolved) {
-      if (isTestRun(resolved)) {
-        await withTokenServer(resolved, async (server) => {
+    async configureServer(server) {
+      if (isTestRun(server.config)) {
+        // `vitest run` disables the watcher, watch mode keeps it. Vitest's
+        // server handles no HMR, so every change comes from the watcher.
+        if (testWatch && server.config.server?.watch != null) {
           devServer = server;
-          try {
-            await buildStyleDictionary(config, resolved.logger, server);
-          } finally {
-            devServer = null;
-          }
-        });
+          watchSources(server);
+          ['add', 'change', 'unlink'].forEach((event) =>
+            server.watcher.on(event, (file: string) => {
+              void reloadAffected(server, file);
+            }),
+          );
+        }
         return;
       }
-      if (resolved.command === 'serve') return;
-      await withTokenServer(resolved, async (server) => {
-        devServer = server;
-        try {
-          await buildStyleDictionary(config, resolved.logger, server);
-        } finally {
-          devServer = null;
+      devServer = server;
+      watchSources(server);
+      // handleHotUpdate only fires for changes, so new and deleted source
+      // files are picked up from the watcher directly.
+      const onAddOrUnlink = (file: string) => {
+        void reloadAffected(server, file);
+      };
+      server.watcher.on('add', onAddOrUnlink);
+      server.watcher.on('unlink', onAddOrUnlink);
+      if (inspector) {
+        const { base } = server.config;
+        server.middlewares.use(
+          `${base}${INSPECTOR_ROUTE}`,
+          createInspectorMiddleware(base, inspectConfigs),
+        );
+      }
+      await rebuildQueue.schedule(targets.map((target) => target.name));
+    },
+    async configResolved(resolved) {
+      viteConfig = resolved;
+      keepInMemory = inMemory || (emitAssets && resolved.command === 'build');
+      if (resolved.command === 'serve' && !isTestRun(resolved)) return;
+      await buildOnce(resolved);
+    },
+    buildStart() {
+      if (!emitAssets || viteConfig?.command !== 'build') return;
+      if (this.environment.config.consumer !== 'client') return;
+      const { root } = viteConfig;
+      for (const target of targets) {
+        for (const { key, file } of getOutputFiles(target.sdConfig, root)) {
+          const source = target.outputs.get(key);
+          if (source === undefined) continue;
+          this.emitFile({
+            type: 'asset',
+            name: path.basename(file),
+            originalFileName: path
+              .relative(root, file)
+              .split(path.sep)
+              .join('/'),
+            source,
+          });
         }
-      });
+      }
     },
     async handleHotUpdate(ctx) {
       if (isTestRun(ctx.server.config)) return undefined;
-      if (!(await isRelevantChange(ctx.server, sources, ctx.file))) return undefined;
-
-      await buildStyleDictionary(config, ctx.server.config.logger, ctx.server);
-
-      return getGeneratedFiles(sdConfig, ctx.server.config.root)
-        .map((file) => ctx.server.moduleGraph.getModuleById(file))
-        .filter((mod): mod is NonNullable<typeof mod> => Boolean(mod));
+      const batch = await rebuildAffected(ctx.server, ctx.file);
+      if (batch === undefined) return undefined;
+      return batch ? getUpdatedModules(ctx.server, batch) : [];
+    },
+    resolveId(id, importer) {
+      if (id.startsWith('\0')) return undefined;
+      const [file = id] = id.split('?');
+      const key = parseVirtualModuleId(file);
+      if (key !== null) {
+        return loadVirtualModule(key) === undefined ? undefined : `\0${id}`;
+      }
+      if (!keepInMemory || !viteConfig) return undefined;
+      // Generated files are not written when outputs are kept in memory, so
+      // imports of their paths are served from memory as well, rather than
+      // failing or bundling a stale file from an earlier build.
+      const output = findOutputFile(
+        resolveImportPath(file, importer, viteConfig.root),
+        viteConfig.root,
+      );
+      if (!output) return undefined;
+      const outputKey = `${output.target.scope}${output.key}`;
+      if (loadVirtualModule(outputKey) === undefined) {
+        this.error(
+          `${LOG_PREFIX} ${id} is generated by Style Dictionary, but its config did not build it`,
+        );
+      }
+      return `${toVirtualModuleId(outputKey)}${id.slice(file.length)}`;
+    },
+    load(id) {
+      if (!id.startsWith('\0')) return undefined;
+      const [file = id] = id.split('?');
+      const key = parseVirtualModuleId(file);
+      return key === null ? undefined : loadVirtualModule(key);
     },
   };
 }
 
-function addViteParser(config: Config, loadTokens: TokensLoader): Config {
-  const parsers = new Set(config.parsers ?? []);
-  parsers.add(PARSER_NAME);
+// Absolute paths may also be relative to the root, as in `/src/theme.css`.
+function resolveImportPath(
+  file: string,
+  importer: string | undefined,
+  root: string,
+): string[] {
+  if (path.isAbsolute(file)) return [file, path.join(root, file)];
+  if (!file.startsWith('.')) return [];
+  const [importerFile = ''] = (importer ?? '').split('?');
+  return [
+    path.resolve(importerFile ? path.dirname(importerFile) : root, file),
+  ];
+}
+
+function expandConfigs(
+  sdConfigs: StyleDictionaryConfigs,
+  themes?: ThemeDimensions,
+): Array<[string, Config, ThemeSelection?]> {
+  const configs = normalizeConfigs(sdConfigs);
+  if (!themes) return configs;
+
+  const prefixed = isConfigCollection(sdConfigs);
+  return configs.flatMap(([name, sdConfig]) =>
+    createThemePermutations(sdConfig, themes).map(
+      (permutation): [string, Config, ThemeSelection] => [
+        prefixed ? `${name}-${permutation.name}` : permutation.name,
+        permutation.config,
+        permutation.theme,
+      ],
+    ),
+  );
+}
+
+// The config's own parsers are registered last: Style Dictionary applies
+// every parser whose pattern matches a file, and the last one wins.
+function addParsers(
+  config: Config,
+  modulePattern: RegExp,
+  loadTokens: TokensLoader,
+): Config {
+  const parsers = new Set([
+    PARSER_NAME,
+    YAML_PARSER_NAME,
+    ...(config.parsers ?? []),
+  ]);
 
   return {
     ...config,
@@ -81,22 +1000,65 @@ function addViteParser(config: Config, loadTokens: TokensLoader): Config {
     hooks: {
       ...config.hooks,
       parsers: {
-        ...config.hooks?.parsers,
         [PARSER_NAME]: {
-          pattern: MATCH_ANY_FILE,
+          pattern: modulePattern,
           parser: (options) => parseTokenModule(options, loadTokens),
         },
+        [YAML_PARSER_NAME]: {
+          pattern: YAML_PATTERN,
+          parser: parseYamlTokens,
+        },
+        ...config.hooks?.parsers,
       },
     },
   };
 }
 
-function withSilentLogging(config: Config): Config {
+// Runs after the config's own preprocessors, so trees converted from other
+// formats are validated in their final shape.
+function withValidation(
+  config: Config,
+  failOnWarnings: boolean,
+  onWarnings: (warnings: TokenDiagnostic[]) => void,
+): Config {
+  return {
+    ...config,
+    preprocessors: [...(config.preprocessors ?? []), VALIDATOR_NAME],
+    hooks: {
+      ...config.hooks,
+      preprocessors: {
+        ...config.hooks?.preprocessors,
+        [VALIDATOR_NAME]: (tokens, { usesDtcg }) => {
+          const [errors, warnings] = partition(
+            validateTokens(tokens, { usesDtcg }),
+            (diagnostic) => failOnWarnings || diagnostic.severity === 'error',
+          );
+          if (errors.length > 0) throw toValidationError(errors);
+          onWarnings(warnings);
+          return tokens;
+        },
+      },
+    },
+  };
+}
+
+function withFailingWarnings(config: Config): Config {
+  return {
+    ...config,
+    log: {
+      ...config.log,
+      warnings: 'error',
+      errors: { ...config.log?.errors, brokenReferences: 'throw' },
+    },
+  };
+}
+
+function withLogLevel(config: Config, logLevel?: LogLevel): Config {
   return {
     ...config,
     log: {
       ...config.log,
-      verbosity: 'silent',
+      verbosity: config.log?.verbosity ?? toVerbosity(logLevel),
     },
   };
 }
@@ -143,26 +1105,127 @@ const isTestRun = (config?: ResolvedConfig) =>
 const isVitestCli = () =>
   !!process.env.VITEST || process.argv.some((arg) => arg.includes('vitest'));
 
-const filterTokenPlugins = (plugins: readonly Plugin[]) =>
+export const filterTokenPlugins = (plugins: readonly Plugin[]) =>
   plugins.filter(
     (plugin) =>
       plugin.name !== PLUGIN_NAME && !plugin.name.startsWith('vitest:'),
   );
 
+interface BuildResult {
+  tokenTree: DesignTokens;
+  authoredTree: DesignTokens;
+  /** Paths of the tokens each rebuilt platform's files accepted. */
+  platformTokens: Map<string, Set<string>>;
+  tokenDiff: TokenDiff;
+  changedTokens: Set<string>;
+  /** Outputs of the rebuilt platforms, keyed by `<platform>/<destination>`. */
+  outputs: Map<string, string>;
+  /** New content hashes of the outputs that changed. */
+  changedHashes: Map<string, string>;
+  inspect: () => Promise<InspectedToken[]>;
+}
+
 async function buildStyleDictionary(
-  sdConfig: Config,
-  logger: Logger,
+  {
+    sdConfig: baseConfig,
+    config: sdConfig,
+    tokenTree,
+    authoredTree,
+    platformTokens,
+    hashes,
+    formatAll,
+  }: ConfigTarget,
   server: ViteDevServer,
-) {
+  {
+    inMemory,
+    hooks,
+    sources,
+  }: {
+    inMemory: boolean;
+    hooks?: Hooks;
+    /** Resolved sources, without export selectors. */
+    sources: string[];
+  },
+): Promise<BuildResult> {
+  const { root } = server.config;
+  const config = withLogLevel(
+    {
+      ...sdConfig,
+      ...(sources.length > 0 && { source: sources }),
+      ...(hooks && {
+        hooks: mergeHooks(sdConfig.hooks, hooks),
+        // Style Dictionary only applies the parsers its config lists by name.
+        parsers: uniq([
+          ...(sdConfig.parsers ?? []),
+          ...Object.keys(hooks.parsers ?? {}),
+        ]),
+      }),
+    },
+    server.config.logLevel,
+  );
+  // Initialize explicitly: errors thrown by the constructor's implicit init
+  // are never surfaced and leave `hasInitialized` pending forever.
+  const sd = new StyleDictionary(config, { init: false });
   try {
-    const sources = await resolveSourceEntries(server, sdConfig.source);
-    const config =
-      sources.length > 0 ? { ...sdConfig, source: sources } : sdConfig;
-    const sd = new StyleDictionary(config);
-    await sd.buildAllPlatforms();
+    await sd.init();
+    const nextTree = resolveTokenTree(sd);
+    const nextAuthoredTree = getAuthoredTokenTree(sd);
+    const tokenDiff = diffTokenTrees(tokenTree, nextTree);
+    // An alias re-pointed to a token with the same value resolves the same,
+    // but outputs that keep references (`outputReferences`) still change.
+    const changedTokens = new Set([
+      ...getChangedTokenPaths(tokenDiff),
+      ...diffTokenPaths(authoredTree, nextAuthoredTree),
+    ]);
+    // Inspecting re-runs every platform's transforms, so it waits until the
+    // inspector asks for it.
+    let inspection: Promise<InspectedToken[]> | undefined;
+    const inspect = () => (inspection ??= inspectTokens(sd, nextTree, root));
+    // The first build of a config has nothing to compare against and formats
+    // everything.
+    const platforms = formatAll
+      ? Object.keys(sd.platforms ?? {})
+      : await getAffectedPlatforms(sd, changedTokens, platformTokens);
+    const outputs = await formatOutputs(sd, platforms);
+    const nextPlatformTokens = await getPlatformTokenPaths(sd, platforms);
+    if (inMemory) {
+      const changedHashes = await diffOutputHashes(outputs, hashes);
+      return {
+        tokenTree: nextTree,
+        authoredTree: nextAuthoredTree,
+        platformTokens: nextPlatformTokens,
+        tokenDiff,
+        changedTokens,
+        outputs,
+        changedHashes,
+        inspect,
+      };
+    }
+
+    const files = new Map(
+      getOutputFiles(baseConfig, root).map(({ key, file }) => [key, file]),
+    );
+    const toFile = (key: string) => files.get(key) ?? path.resolve(root, key);
+    const changedHashes = await diffOutputHashes(outputs, hashes, (key) =>
+      readOutputFile(toFile(key)),
+    );
+    await Promise.all(
+      Array.from(changedHashes.keys(), (key) =>
+        writeOutputFile(toFile(key), outputs.get(key) ?? ''),
+      ),
+    );
+    await performPlatformActions(sd, platforms);
+    return {
+      tokenTree: nextTree,
+      authoredTree: nextAuthoredTree,
+      platformTokens: nextPlatformTokens,
+      tokenDiff,
+      changedTokens,
+      outputs,
+      changedHashes,
+      inspect,
+    };
   } catch (error) {
-    logger.error('[vite:style-dictionary] Build failed:', {
-      error: error instanceof Error ? error : new Error(String(error)),
-    });
+    throw toTokenBuildError(error, sd);
   }
 }
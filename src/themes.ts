@@ -0,0 +1,86 @@
+import type { Config } from 'style-dictionary';
+import type { PlatformConfig } from 'style-dictionary/types';
+import { castArray, mapValues } from 'lodash-es';
+import { normalizeSources } from './internal';
+
+/**
+ * Theme dimensions mapped to the sources each of their values adds, e.g.
+ * `{ brand: { acme: ['tokens/acme/**'] }, mode: { light: [...], dark: [...] } }`.
+ */
+export type ThemeDimensions = Record<string, Record<string, string[] | string>>;
+
+export type ThemeSelection = Record<string, string>;
+
+export interface ThemePermutation {
+  name: string;
+  theme: ThemeSelection;
+  config: Config;
+}
+
+const PLACEHOLDER = /\{([^{}]+)\}/g;
+
+export const applyThemeTemplate = (value: string, theme: ThemeSelection) =>
+  value.replace(PLACEHOLDER, (match, key: string) => theme[key] ?? match);
+
+export const toThemeName = (theme: ThemeSelection) =>
+  Object.values(theme).join('-');
+
+function collectThemes(dimensions: ThemeDimensions): ThemeSelection[] {
+  return Object.entries(dimensions).reduce<ThemeSelection[]>(
+    (themes, [dimension, values]) =>
+      themes.flatMap((theme) =>
+        Object.keys(values).map((value) => ({ ...theme, [dimension]: value })),
+      ),
+    [{}],
+  );
+}
+
+function themePlatform(
+  platform: PlatformConfig,
+  theme: ThemeSelection,
+): PlatformConfig {
+  return {
+    ...platform,
+    ...(platform.buildPath && {
+      buildPath: applyThemeTemplate(platform.buildPath, theme),
+    }),
+    ...(platform.files && {
+      files: castArray(platform.files).map((file) => ({
+        ...file,
+        ...(file.destination && {
+          destination: applyThemeTemplate(file.destination, theme),
+        }),
+      })),
+    }),
+  };
+}
+
+/**
+ * Expands a base config into one config per combination of dimension values.
+ * Each permutation reads the base sources followed by the sources of its
+ * selected values, and `{dimension}` placeholders in `buildPath` and file
+ * `destination` are replaced with the selected value.
+ */
+export function createThemePermutations(
+  config: Config,
+  dimensions: ThemeDimensions,
+): ThemePermutation[] {
+  return collectThemes(dimensions).map((theme) => ({
+    name: toThemeName(theme),
+    theme,
+    config: {
+      ...config,
+      source: [
+        ...normalizeSources(config.source),
+        ...Object.entries(theme).flatMap(([dimension, value]) =>
+          normalizeSources(dimensions[dimension]?.[value]),
+        ),
+      ],
+      ...(config.platforms && {
+        platforms: mapValues(config.platforms, (platform) =>
+          themePlatform(platform, theme),
+        ),
+      }),
+    },
+  }));
+}
@@ -0,0 +1,409 @@
+import { isPlainObject } from 'lodash-es';
+import type { PreprocessedTokens } from 'style-dictionary/types';
+import { TokenBuildError } from './errors';
+
+export interface TokenDiagnostic {
+  /** Dot-separated path of the offending token or group. */
+  token: string;
+  message: string;
+  /**
+   * Errors break Style Dictionary (invalid names, circular aliases). Warnings
+   * flag types and values outside the DTCG spec, which transforms may still
+   * handle, e.g. `$type: 'fontSize'` or unitless dimensions for `size/rem`.
+   */
+  severity: 'error' | 'warning';
+  /** Source file the token was loaded from, when known. */
+  filePath?: string;
+}
+
+interface ValidationOptions {
+  usesDtcg?: boolean;
+}
+
+type Node = Record<string, unknown>;
+// Returns a description of what is wrong with a value, if anything.
+type ValueCheck = (value: unknown) => string | undefined;
+
+const REFERENCE = /\{([^{}]+)\}/g;
+const ALIAS = /^\{[^{}]+\}$/;
+const VALUE_SUFFIX = /\.\$?value$/;
+const INVALID_NAME = /[.{}]/;
+// Added to tokens by Style Dictionary's parser step.
+const METADATA_KEYS = new Set(['filePath', 'isSource']);
+
+const HEX_COLOR = /^#(?:[\da-f]{3,4}|[\da-f]{6}|[\da-f]{8})$/i;
+const COLOR_FUNCTION = /^(?:rgba?|hsla?|hwb|lab|lch|oklab|oklch|color)\(.+\)$/i;
+const COLOR_KEYWORD = /^[a-z]+$/i;
+const NUMBER = String.raw`-?(?:\d+(?:\.\d+)?|\.\d+)`;
+const DIMENSION = new RegExp(`^(?:${NUMBER}[a-z%]+|-?0)$`, 'i');
+const DURATION = new RegExp(`^${NUMBER}m?s$`);
+const FONT_WEIGHTS = new Set([
+  'thin',
+  'hairline',
+  'extra-light',
+  'ultra-light',
+  'light',
+  'normal',
+  'regular',
+  'book',
+  'medium',
+  'semi-bold',
+  'demi-bold',
+  'bold',
+  'extra-bold',
+  'ultra-bold',
+  'black',
+  'heavy',
+  'extra-black',
+  'ultra-black',
+]);
+const STROKE_STYLES = new Set([
+  'solid',
+  'dashed',
+  'dotted',
+  'double',
+  'groove',
+  'ridge',
+  'outset',
+  'inset',
+]);
+const LINE_CAPS = new Set(['round', 'butt', 'square']);
+
+const isAlias = (value: unknown) =>
+  typeof value === 'string' && ALIAS.test(value);
+
+const show = (value: unknown) => JSON.stringify(value) ?? String(value);
+
+// Aliases are valid anywhere; the referenced token is checked on its own.
+const check =
+  (expected: string, test: (value: unknown) => boolean): ValueCheck =>
+  (value) =>
+    isAlias(value) || test(value)
+      ? undefined
+      : `${show(value)} is not a valid ${expected}`;
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isUnitValue = (value: unknown, units?: Set<string>) =>
+  isPlainObject(value) &&
+  isNumber((value as Node).value) &&
+  typeof (value as Node).unit === 'string' &&
+  (!units || units.has((value as Node).unit as string));
+
+const color = check(
+  'color',
+  (value) =>
+    (typeof value === 'string' &&
+      (HEX_COLOR.test(value) ||
+        COLOR_FUNCTION.test(value) ||
+        COLOR_KEYWORD.test(value))) ||
+    (isPlainObject(value) &&
+      typeof (value as Node).colorSpace === 'string' &&
+      Array.isArray((value as Node).components)),
+);
+const dimension = check(
+  'dimension',
+  (value) =>
+    (typeof value === 'string' && DIMENSION.test(value)) ||
+    value === 0 ||
+    isUnitValue(value),
+);
+const duration = check(
+  'duration',
+  (value) =>
+    (typeof value === 'string' && DURATION.test(value)) ||
+    isUnitValue(value, new Set(['ms', 's'])),
+);
+const number = check('number', isNumber);
+const fontWeight = check(
+  'font weight',
+  (value) =>
+    (isNumber(value) && value >= 1 && value <= 1000) ||
+    (typeof value === 'string' && FONT_WEIGHTS.has(value)),
+);
+const fontFamily = check(
+  'font family',
+  (value) =>
+    (typeof value === 'string' && value.length > 0) ||
+    (Array.isArray(value) &&
+      value.length > 0 &&
+      value.every((item) => typeof item === 'string' || isAlias(item))),
+);
+const cubicBezier = check(
+  'cubic bézier curve',
+  (value) =>
+    Array.isArray(value) &&
+    value.length === 4 &&
+    value.every((item) => isNumber(item) || isAlias(item)) &&
+    [value[0], value[2]].every(
+      (x) => isAlias(x) || ((x as number) >= 0 && (x as number) <= 1),
+    ),
+);
+
+/**
+ * Checks a composite value: every member is required unless listed in
+ * `optional`, and each member is checked with its own type.
+ */
+const composite =
+  (
+    expected: string,
+    members: Record<string, ValueCheck>,
+    optional: string[] = [],
+  ): ValueCheck =>
+  (value) => {
+    if (isAlias(value)) return undefined;
+    if (!isPlainObject(value)) {
+      return `${show(value)} is not a valid ${expected}`;
+    }
+    const object = value as Node;
+    const missing = Object.keys(members).filter(
+      (member) => !optional.includes(member) && !(member in object),
+    );
+    if (missing.length > 0) {
+      return `${expected} is missing ${missing.join(', ')}`;
+    }
+    for (const [member, checkMember] of Object.entries(members)) {
+      if (!(member in object)) continue;
+      const problem = checkMember(object[member]);
+      if (problem) return `${member}: ${problem}`;
+    }
+    return undefined;
+  };
+
+const strokeStyle: ValueCheck = (value) =>
+  typeof value === 'string'
+    ? check('stroke style', (style) => STROKE_STYLES.has(style as string))(
+        value,
+      )
+    : composite('stroke style', {
+        dashArray: check(
+          'dash array',
+          (dashes) =>
+            Array.isArray(dashes) && dashes.every((dash) => !dimension(dash)),
+        ),
+        lineCap: check('line cap', (cap) => LINE_CAPS.has(cap as string)),
+      })(value);
+
+const shadowLayer = composite(
+  'shadow',
+  {
+    color,
+    offsetX: dimension,
+    offsetY: dimension,
+    blur: dimension,
+    spread: dimension,
+    inset: check('boolean', (inset) => typeof inset === 'boolean'),
+  },
+  ['inset'],
+);
+
+/** `$value` checks for every type of the DTCG format. */
+const VALUE_CHECKS: Record<string, ValueCheck> = {
+  color,
+  dimension,
+  duration,
+  number,
+  fontWeight,
+  fontFamily,
+  cubicBezier,
+  strokeStyle,
+  border: composite('border', { color, width: dimension, style: strokeStyle }),
+  transition: composite('transition', {
+    duration,
+    delay: duration,
+    timingFunction: cubicBezier,
+  }),
+  shadow: (value) =>
+    Array.isArray(value)
+      ? value.map(shadowLayer).find(Boolean)
+      : shadowLayer(value),
+  gradient: (value) =>
+    isAlias(value)
+      ? undefined
+      : Array.isArray(value) && value.length > 0
+        ? value
+            .map(composite('gradient stop', { color, position: number }))
+            .find(Boolean)
+        : `${show(value)} is not a valid gradient`,
+  typography: composite('typography', {
+    fontFamily,
+    fontSize: dimension,
+    fontWeight,
+    letterSpacing: dimension,
+    lineHeight: number,
+  }),
+};
+
+interface TokenEntry {
+  path: string[];
+  token: Node;
+}
+
+const getFilePath = (node: unknown): string | undefined => {
+  if (!isPlainObject(node)) return undefined;
+  const { filePath } = node as Node;
+  if (typeof filePath === 'string') return filePath;
+  for (const child of Object.values(node as Node)) {
+    const found = getFilePath(child);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+const collectStrings = (value: unknown): string[] => {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.flatMap(collectStrings);
+  if (isPlainObject(value)) {
+    return Object.values(value as Node).flatMap(collectStrings);
+  }
+  return [];
+};
+
+/**
+ * Paths of the tokens referenced anywhere in a value. `{color.brand.value}`
+ * is an older spelling of `{color.brand}`.
+ */
+export const getReferences = (value: unknown): string[] =>
+  collectStrings(value).flatMap((text) =>
+    Array.from(text.matchAll(REFERENCE), ([, target = '']) =>
+      target.replace(VALUE_SUFFIX, ''),
+    ),
+  );
+
+function collectTokens(node: unknown, valueKey: string, path: string[] = []) {
+  if (!isPlainObject(node)) return [];
+  const group = node as Node;
+  if (valueKey in group) return [{ path, token: group }];
+  return Object.entries(group).flatMap(([key, child]): TokenEntry[] =>
+    key.startsWith('$') ? [] : collectTokens(child, valueKey, [...path, key]),
+  );
+}
+
+const withFilePath = (node: unknown) => {
+  const filePath = getFilePath(node);
+  return filePath ? { filePath } : {};
+};
+
+/**
+ * Finds aliases that (directly or through other tokens) reference themselves.
+ * Each cycle is reported once, on the token where it was entered.
+ */
+export function findCircularReferences(
+  tokens: PreprocessedTokens,
+  { usesDtcg }: ValidationOptions = {},
+): TokenDiagnostic[] {
+  const valueKey = usesDtcg ? '$value' : 'value';
+  const entries = new Map(
+    collectTokens(tokens, valueKey).map((entry) => [
+      entry.path.join('.'),
+      entry,
+    ]),
+  );
+  const getTargets = (name: string) =>
+    getReferences(entries.get(name)?.token[valueKey]).filter((target) =>
+      entries.has(target),
+    );
+
+  const diagnostics: TokenDiagnostic[] = [];
+  const done = new Set<string>();
+  const visit = (name: string, stack: string[]) => {
+    const index = stack.indexOf(name);
+    if (index !== -1) {
+      const cycle = [...stack.slice(index), name];
+      diagnostics.push({
+        token: name,
+        message: `circular reference ${cycle
+          .map((target) => `{${target}}`)
+          .join(' -> ')}`,
+        severity: 'error',
+        ...withFilePath(entries.get(name)?.token),
+      });
+      return;
+    }
+    if (done.has(name)) return;
+    getTargets(name).forEach((target) => visit(target, [...stack, name]));
+    done.add(name);
+  };
+  entries.forEach((_, name) => visit(name, []));
+  return diagnostics;
+}
+
+/**
+ * Validates a token tree: names must not contain `.`, `{` or `}`, and in the
+ * DTCG format every `$type` must be known and every `$value` must match its
+ * (possibly inherited) type, composite values included. Circular aliases are
+ * reported too. Returns every problem found; type and value problems are
+ * warnings.
+ */
+export function validateTokens(
+  tokens: PreprocessedTokens,
+  { usesDtcg }: ValidationOptions = {},
+): TokenDiagnostic[] {
+  const valueKey = usesDtcg ? '$value' : 'value';
+  const diagnostics: TokenDiagnostic[] = [];
+  const report = (
+    path: string[],
+    message: string,
+    node: unknown,
+    severity: TokenDiagnostic['severity'] = 'error',
+  ) =>
+    diagnostics.push({
+      token: path.join('.'),
+      message,
+      severity,
+      ...withFilePath(node),
+    });
+
+  const visit = (node: Node, path: string[], inheritedType?: unknown) => {
+    const type = usesDtcg ? (node.$type ?? inheritedType) : undefined;
+    if (usesDtcg && '$type' in node && !(String(node.$type) in VALUE_CHECKS)) {
+      report(
+        path,
+        `$type ${show(node.$type)} is not a DTCG token type`,
+        node,
+        'warning',
+      );
+    }
+    if (valueKey in node) {
+      const checkValue = VALUE_CHECKS[String(type)];
+      const problem = checkValue?.(node[valueKey]);
+      if (problem) report(path, `${valueKey} ${problem}`, node, 'warning');
+      return;
+    }
+    for (const [key, child] of Object.entries(node)) {
+      if (key.startsWith('$') || METADATA_KEYS.has(key)) continue;
+      const childPath = [...path, key];
+      if (INVALID_NAME.test(key)) {
+        report(childPath, `name must not contain ".", "{" or "}"`, child);
+      }
+      if (isPlainObject(child)) visit(child as Node, childPath, type);
+    }
+  };
+  visit(tokens, []);
+  return [...diagnostics, ...findCircularReferences(tokens, { usesDtcg })];
+}
+
+const formatDiagnostics = (title: string, diagnostics: TokenDiagnostic[]) =>
+  [
+    `${title} (${diagnostics.length}):`,
+    ...diagnostics.map(
+      ({ token, message, filePath }) =>
+        `  ${token || '<root>'}: ${message}${filePath ? ` (${filePath})` : ''}`,
+    ),
+  ].join('\n');
+
+/** Combines validation diagnostics into one build error. */
+export function toValidationError(
+  diagnostics: TokenDiagnostic[],
+): TokenBuildError {
+  const [first] = diagnostics;
+  return new TokenBuildError(
+    formatDiagnostics('Invalid design tokens', diagnostics),
+    { token: first?.token, filePath: first?.filePath },
+  );
+}
+
+/** Combines validation warnings into one log message. */
+export const formatValidationWarnings = (diagnostics: TokenDiagnostic[]) =>
+  formatDiagnostics('Design tokens outside the DTCG spec', diagnostics);
@@ -0,0 +1,30 @@
+import type { DesignTokens } from 'style-dictionary/types';
+
+const VIRTUAL_PREFIX = 'virtual:style-dictionary/';
+const TOKENS_KEY = 'tokens';
+
+export const TOKENS_MODULE_ID = `${VIRTUAL_PREFIX}${TOKENS_KEY}`;
+export const RESOLVED_TOKENS_MODULE_ID = `\0${TOKENS_MODULE_ID}`;
+
+export const renderTokensModule = (tokens: DesignTokens) =>
+  `export default ${JSON.stringify(tokens, null, 2)};\n`;
+
+// Named configs expose their own tree as `virtual:style-dictionary/tokens/<name>`.
+export const toTokensKey = (name?: string) =>
+  name ? `${TOKENS_KEY}/${name}` : TOKENS_KEY;
+
+// In-memory outputs are keyed by `<platform>/<destination>` and served as
+// `virtual:style-dictionary/<platform>/<destination>`.
+export const toOutputKey = (platform: string, destination: string) =>
+  `${platform}/${destination.replace(/\\/g, '/').replace(/^\.?\/+/, '')}`;
+
+export const toVirtualModuleId = (key: string) => `\0${VIRTUAL_PREFIX}${key}`;
+
+/** Specifier to import a virtual module by, i.e. its id without `\0`. */
+export const toModuleSpecifier = (key: string) => `${VIRTUAL_PREFIX}${key}`;
+
+export const parseVirtualModuleId = (id: string): string | null => {
+  const rawId = id.startsWith('\0') ? id.slice(1) : id;
+  if (!rawId.startsWith(VIRTUAL_PREFIX)) return null;
+  return rawId.slice(VIRTUAL_PREFIX.length);
+};
@@ -0,0 +1,167 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  getCacheFile,
+  hashInputs,
+  isCacheEntryFresh,
+  readCacheEntry,
+  withCacheLock,
+  writeCacheEntry,
+} from '../src/build-cache';
+
+let root = '';
+
+const write = async (file: string, content: string) => {
+  await fs.mkdir(path.dirname(path.join(root, file)), { recursive: true });
+  await fs.writeFile(path.join(root, file), content);
+};
+
+afterEach(async () => {
+  if (root) await fs.rm(root, { recursive: true, force: true });
+  root = '';
+});
+
+describe('getCacheFile', () => {
+  it('keys entries by the source of functions and patterns too', () => {
+    const file = (filter: unknown) =>
+      getCacheFile('/project/node_modules/.vite', { filter, pattern: /\.ts$/ });
+
+    expect(file((token: { type: string }) => token.type === 'color')).toBe(
+      file((token: { type: string }) => token.type === 'color'),
+    );
+    expect(file(() => true)).not.toBe(file(() => false));
+    expect(path.dirname(file(null))).toBe(
+      '/project/node_modules/.vite/style-dictionary',
+    );
+  });
+});
+
+describe('isCacheEntryFresh', () => {
+  it('compares file contents, glob matches and outputs', async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'vite-sd-cache-'));
+    await write('tokens/colors.json', '{}');
+    await write('src/palette.ts', "export const brand = '#fff';");
+    await write('dist/tokens.css', ':root {}');
+    const entry = {
+      version: 1,
+      inputs: await hashInputs(root, {
+        files: [path.join(root, 'src/palette.ts')],
+        globs: ['tokens/**/*.json'],
+      }),
+      outputs: await hashInputs(root, {
+        files: [path.join(root, 'dist/tokens.css')],
+        globs: [],
+      }),
+      targets: [],
+    };
+    expect(Object.keys(entry.inputs)).toEqual([
+      'src/palette.ts',
+      'glob:tokens/**/*.json',
+    ]);
+
+    await expect(isCacheEntryFresh(root, entry)).resolves.toBe(true);
+
+    await write('tokens/size.json', '{}');
+    await expect(isCacheEntryFresh(root, entry)).resolves.toBe(false);
+    await fs.rm(path.join(root, 'tokens/size.json'));
+
+    await write('tokens/colors.json', '{"color":{}}');
+    await expect(isCacheEntryFresh(root, entry)).resolves.toBe(false);
+    await write('tokens/colors.json', '{}');
+
+    await write('src/palette.ts', "export const brand = '#000';");
+    await expect(isCacheEntryFresh(root, entry)).resolves.toBe(false);
+    await write('src/palette.ts', "export const brand = '#fff';");
+
+    await fs.rm(path.join(root, 'dist/tokens.css'));
+    await expect(isCacheEntryFresh(root, entry)).resolves.toBe(false);
+  });
+});
+
+describe('readCacheEntry', () => {
+  it('reads written entries and ignores other versions', async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'vite-sd-cache-'));
+    const file = path.join(root, 'cache/entry.json');
+    const entry = {
+      inputs: { 'tokens.ts': 'hash' },
+      outputs: {},
+      targets: [{ name: 'default', tokenTree: {} }],
+    };
+
+    await writeCacheEntry(file, entry);
+    await expect(readCacheEntry(file)).resolves.toEqual({
+      version: 1,
+      ...entry,
+    });
+    expect(await fs.readdir(path.dirname(file))).toEqual(['entry.json']);
+
+    await write('cache/entry.json', JSON.stringify({ ...entry, version: 0 }));
+    await expect(readCacheEntry(file)).resolves.toBeNull();
+    await write('cache/entry.json', '{');
+    await expect(readCacheEntry(file)).resolves.toBeNull();
+  });
+});
+
+describe('withCacheLock', () => {
+  it('runs tasks holding the same lock one after the other', async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'vite-sd-cache-'));
+    const file = path.join(root, 'cache/entry.json');
+    const events: string[] = [];
+    const task = (name: string) => async () => {
+      events.push(`${name} start`);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      events.push(`${name} end`);
+      return name;
+    };
+
+    await expect(
+      Promise.all([
+        withCacheLock(file, task('a'), { retryDelay: 5 }),
+        withCacheLock(file, task('b'), { retryDelay: 5 }),
+      ]),
+    ).resolves.toEqual(['a', 'b']);
+    expect(events).toEqual(['a start', 'a end', 'b start', 'b end']);
+    await expect(fs.access(`${file}.lock`)).rejects.toThrow();
+  });
+
+  it('takes over locks of processes that are gone or took too long', async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'vite-sd-cache-'));
+    const file = path.join(root, 'entry.json');
+    const lock = (owner: object) =>
+      write(
+        'entry.json.lock',
+        JSON.stringify({ host: os.hostname(), id: 'other', ...owner }),
+      );
+
+    // Larger than any pid_max.
+    await lock({ pid: 99999999 });
+    await expect(withCacheLock(file, async () => 'dead')).resolves.toBe('dead');
+
+    // An earlier process that had this pid, e.g. in a restarted container.
+    await lock({ pid: process.pid });
+    await expect(withCacheLock(file, async () => 'reused')).resolves.toBe(
+      'reused',
+    );
+
+    await lock({ host: `not-${os.hostname()}`, pid: process.ppid });
+    await expect(withCacheLock(file, async () => 'restored')).resolves.toBe(
+      'restored',
+    );
+
+    await lock({ pid: process.ppid });
+    await expect(
+      withCacheLock(file, async () => 'stale', { staleAfter: -1 }),
+    ).resolves.toBe('stale');
+  });
+
+  it('runs the task without the lock when it cannot be created', async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'vite-sd-cache-'));
+    await write('cache', 'not a directory');
+
+    await expect(
+      withCacheLock(path.join(root, 'cache/entry.json'), async () => 'done'),
+    ).resolves.toBe('done');
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createBuildQueue } from '../src/build-queue';
+
+const flushTimers = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+describe('createBuildQueue', () => {
+  it('coalesces requests made within the delay into one build', async () => {
+    const run = vi.fn().mockResolvedValue(undefined);
+    const queue = createBuildQueue<string>(run, 5);
+
+    const results = await Promise.all([
+      queue.schedule(['light']),
+      queue.schedule(['dark']),
+      queue.schedule(['light']),
+    ]);
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(run).toHaveBeenCalledWith(new Set(['light', 'dark']));
+    expect(results).toEqual([null, null, new Set(['light', 'dark'])]);
+  });
+
+  it('never overlaps builds and runs a trailing build for later changes', async () => {
+    let active = 0;
+    let maxActive = 0;
+    const builds: Array<Set<string>> = [];
+    let release: () => void = () => undefined;
+    const run = vi.fn(async (keys: Set<string>) => {
+      active += 1;
+      maxActive = Math.max(maxActive, active);
+      builds.push(keys);
+      if (builds.length === 1) {
+        await new Promise<void>((resolve) => {
+          release = resolve;
+        });
+      }
+      active -= 1;
+    });
+    const queue = createBuildQueue<string>(run, 1);
+
+    const first = queue.schedule(['a']);
+    await flushTimers();
+    expect(run).toHaveBeenCalledTimes(1);
+
+    const second = queue.schedule(['b']);
+    const third = queue.schedule(['c']);
+    await flushTimers();
+    expect(run).toHaveBeenCalledTimes(1);
+
+    release();
+    await Promise.all([first, second, third]);
+
+    expect(maxActive).toBe(1);
+    expect(builds).toEqual([new Set(['a']), new Set(['b', 'c'])]);
+    expect(await third).toEqual(new Set(['b', 'c']));
+  });
+
+  it('rejects every request of a failed batch', async () => {
+    const queue = createBuildQueue<string>(
+      vi.fn().mockRejectedValue(new Error('boom')),
+      1,
+    );
+
+    await expect(
+      Promise.all([queue.schedule(['a']), queue.schedule(['b'])]),
+    ).rejects.toThrow('boom');
+  });
+});
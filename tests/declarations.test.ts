@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import ts from 'typescript';
+import { renderDeclarations } from '../src/declarations';
+
+const tree = {
+  color: {
+    brand: {
+      primary: { value: '#2798f5', type: 'color', description: 'Brand' },
+    },
+    'on-brand': { value: '#fff', type: 'color' },
+  },
+  size: {
+    base: { $value: 4, $type: 'dimension' },
+    scale: { $value: [1, 2, 4], $type: 'number' },
+  },
+};
+
+describe('renderDeclarations', () => {
+  it('types token paths, values and literal types', () => {
+    const output = renderDeclarations([
+      { id: 'virtual:style-dictionary/tokens', tree },
+    ]);
+
+    expect(output).toContain(
+      "declare module \"virtual:style-dictionary/tokens\" {",
+    );
+    expect(output).toContain('readonly "on-brand": {');
+    expect(output).toContain('readonly type: "color";');
+    expect(output).toContain('readonly $value: number;');
+    expect(output).toContain('readonly $value: readonly number[];');
+    expect(output).toContain('readonly description: string;');
+  });
+
+  it('makes typos in token paths fail type checking', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'vite-sd-dts-'));
+    try {
+      const declarations = path.join(dir, 'style-dictionary.d.ts');
+      const consumer = path.join(dir, 'consumer.ts');
+      await fs.writeFile(
+        declarations,
+        renderDeclarations([{ id: 'virtual:style-dictionary/tokens', tree }]),
+      );
+      await fs.writeFile(
+        consumer,
+        [
+          "import tokens from 'virtual:style-dictionary/tokens';",
+          '',
+          'export const primary: string = tokens.color.brand.primary.value;',
+          "export const type: 'dimension' = tokens.size.base.$type;",
+          '// @ts-expect-error misspelled token path',
+          'export const typo = tokens.color.brnad;',
+          '',
+        ].join('\n'),
+      );
+
+      // Without DOM and later ES libs the program checks in a fraction of the
+      // time.
+      const program = ts.createProgram([declarations, consumer], {
+        lib: ['lib.es5.d.ts'],
+        strict: true,
+        noEmit: true,
+        module: ts.ModuleKind.ESNext,
+        moduleResolution: ts.ModuleResolutionKind.Bundler,
+        target: ts.ScriptTarget.ES2022,
+        types: [],
+      });
+      const diagnostics = ts
+        .getPreEmitDiagnostics(program)
+        .map(({ messageText }) => ts.flattenDiagnosticMessageText(messageText, '\n'));
+
+      expect(diagnostics).toEqual([]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }, 30_000);
+});
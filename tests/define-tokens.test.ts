@@ -0,0 +1,56 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { defineTokens, type TokenPath } from '../src/define-tokens';
+
+describe('defineTokens', () => {
+  it('returns the token tree unchanged', () => {
+    const tokens = {
+      color: {
+        $type: 'color',
+        brand: { $value: '#2798f5' },
+        primary: { $value: '{color.brand}' },
+      },
+    } as const;
+
+    expect(defineTokens(tokens)).toBe(tokens);
+  });
+
+  it('collects the paths of every token', () => {
+    const tokens = defineTokens({
+      color: {
+        brand: { $value: '#2798f5', $type: 'color' },
+        text: { muted: { $value: '#666', $description: 'Secondary text' } },
+      },
+      space: { $type: 'dimension', small: { $value: '4px' } },
+    });
+
+    expectTypeOf<TokenPath<typeof tokens>>().toEqualTypeOf<
+      'color.brand' | 'color.text.muted' | 'space.small'
+    >();
+  });
+
+  it('type-checks alias references against the tree', () => {
+    defineTokens({
+      color: {
+        brand: { $value: '#2798f5' },
+        primary: { $value: '{color.brand}' },
+      },
+      border: {
+        $value: { color: '{color.primary}', width: '1px', style: 'solid' },
+        $type: 'border',
+      },
+    });
+
+    defineTokens({
+      color: {
+        brand: { $value: '#2798f5' },
+        // @ts-expect-error color.brnad is not a token
+        primary: { $value: '{color.brnad}' },
+      },
+    });
+
+    defineTokens({
+      // @ts-expect-error $type must be a DTCG token type
+      size: { small: { $value: '4px', $type: 'size' } },
+    });
+  });
+});
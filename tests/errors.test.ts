@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import {
+  TokenBuildError,
+  findBrokenReferences,
+  toErrorPayload,
+  toTokenBuildError,
+} from '../src/errors';
+
+const tokens = {
+  color: {
+    brand: { value: '#2798f5', filePath: 'src/tokens/colors.ts' },
+    surface: { value: '{color.missing}', filePath: 'src/tokens/surface.ts' },
+    border: { value: '1px solid {color.brand}' },
+  },
+};
+
+describe('findBrokenReferences', () => {
+  it('reports the token, reference and source file', () => {
+    expect(findBrokenReferences({ tokens })).toEqual([
+      {
+        token: 'color.surface',
+        reference: '{color.missing}',
+        filePath: 'src/tokens/surface.ts',
+      },
+    ]);
+  });
+
+  it('reads DTCG $value references', () => {
+    expect(
+      findBrokenReferences({
+        tokens: { size: { gap: { $value: { x: '{size.base}' } } } },
+        usesDtcg: true,
+      }),
+    ).toEqual([{ token: 'size.gap', reference: '{size.base}' }]);
+  });
+});
+
+describe('toTokenBuildError', () => {
+  it('describes broken references behind a build failure', () => {
+    const error = toTokenBuildError(new Error('Reference Errors'), { tokens });
+
+    expect(error).toBeInstanceOf(TokenBuildError);
+    expect(error.message).toBe(
+      [
+        'Reference Errors',
+        '  color.surface tries to reference {color.missing}, which is not defined (src/tokens/surface.ts)',
+      ].join('\n'),
+    );
+    expect(toErrorPayload(error, '[vite:style-dictionary]')).toMatchObject({
+      message: error.message,
+      plugin: '[vite:style-dictionary]',
+      id: 'src/tokens/surface.ts',
+      frame: 'color.surface: {color.missing}',
+    });
+  });
+
+  it('falls back to the id of a module that failed to load', () => {
+    const cause = Object.assign(new Error('boom'), { id: '/src/tokens.ts' });
+
+    const error = toTokenBuildError(cause, {});
+
+    expect(error.message).toBe('boom');
+    expect(error.filePath).toBe('/src/tokens.ts');
+    expect(error.cause).toBe(cause);
+  });
+});
@@ -0,0 +1,137 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { buildTokens, runCli } from '../src/headless';
+
+const createFixture = async () => {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'vite-sd-headless-'));
+  const write = async (file: string, lines: string[]) => {
+    await fs.mkdir(path.dirname(path.join(root, file)), { recursive: true });
+    await fs.writeFile(path.join(root, file), [...lines, ''].join('\n'));
+  };
+  await write('src/tokens/colors.ts', [
+    'export default {',
+    "  color: {",
+    "    $type: 'color',",
+    "    brand: { $value: '#2798f5' },",
+    "    primary: { $value: '{color.brand}' },",
+    '  },',
+    '};',
+  ]);
+  await write('src/tokens/index.ts', [
+    "import colors from '@tokens/colors';",
+    'export default colors;',
+  ]);
+  await write('vite.config.ts', [
+    "import path from 'node:path';",
+    'export default {',
+    "  resolve: { alias: { '@tokens': path.resolve(__dirname, 'src/tokens') } },",
+    '};',
+  ]);
+  await write('style-dictionary.config.ts', [
+    'export default {',
+    "  source: ['src/tokens/index.ts'],",
+    '  platforms: {',
+    '    css: {',
+    "      transformGroup: 'css',",
+    "      buildPath: 'dist/',",
+    "      files: [{ destination: 'variables.css', format: 'css/variables' }],",
+    '    },',
+    '  },',
+    '};',
+  ]);
+  return root;
+};
+
+const roots: string[] = [];
+const useFixture = async () => {
+  const root = await createFixture();
+  roots.push(root);
+  return root;
+};
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await Promise.all(
+    roots.splice(0).map((root) => fs.rm(root, { recursive: true, force: true })),
+  );
+});
+
+describe('buildTokens', () => {
+  it('builds a config module with the aliases of the Vite config', async () => {
+    const root = await useFixture();
+
+    const { tokens, inspect } = await buildTokens({
+      configFile: 'style-dictionary.config.ts',
+      root,
+      logLevel: 'silent',
+    });
+
+    await expect(
+      fs.readFile(path.join(root, 'dist/variables.css'), 'utf8'),
+    ).resolves.toContain('--color-primary: #2798f5;');
+    expect(tokens.default).toMatchObject({
+      color: { primary: { $value: '#2798f5' } },
+    });
+    const [config] = await inspect();
+    expect(
+      config?.tokens.find((token) => token.path === 'color.primary'),
+    ).toMatchObject({ aliasChain: ['color.brand'] });
+  });
+
+  it('fails when token modules need the skipped Vite config', async () => {
+    const root = await useFixture();
+
+    await expect(
+      buildTokens({
+        config: {
+          source: [path.join(root, 'src/tokens/index.ts')],
+          platforms: {},
+        },
+        root,
+        viteConfigFile: false,
+        logLevel: 'silent',
+      }),
+    ).rejects.toThrow("Cannot find module '@tokens/colors'");
+  });
+});
+
+describe('runCli', () => {
+  it('inspects tokens matching a query as JSON', async () => {
+    const root = await useFixture();
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await expect(
+      runCli(['inspect', 'primary', '--json', '-r', root]),
+    ).resolves.toBe(0);
+
+    const [[output]] = log.mock.calls as [[string]];
+    const { configs } = JSON.parse(output);
+    expect(configs).toEqual([
+      {
+        name: 'default',
+        tokens: [
+          expect.objectContaining({
+            path: 'color.primary',
+            resolvedValue: '#2798f5',
+            filePath: 'src/tokens/index.ts',
+          }),
+        ],
+      },
+    ]);
+  });
+
+  it('reports unknown commands and missing configs', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'vite-sd-empty-'));
+    roots.push(root);
+
+    await expect(runCli(['publish'])).resolves.toBe(1);
+    expect(error).toHaveBeenCalledWith('Unknown command "publish"\n');
+    await expect(runCli(['build', '--root', root])).resolves.toBe(1);
+    expect(error).toHaveBeenLastCalledWith(
+      `No Style Dictionary config found in ${root}; pass one with --config`,
+    );
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, it, vi } from 'vitest';
+import StyleDictionary from 'style-dictionary';
+import {
+  createInspectorMiddleware,
+  inspectTokens,
+  renderInspectorPage,
+} from '../src/inspector';
+import { resolveTokenTree } from '../src/internal';
+
+const createDictionary = async () => {
+  const sd = new StyleDictionary(
+    {
+      log: { verbosity: 'silent' },
+      tokens: {
+        color: {
+          $type: 'color',
+          brand: { $value: '#2798f5', filePath: '/project/src/colors.ts' },
+          surface: { $value: '{color.brand}', $description: 'Page background' },
+          'surface-2': { $value: '{color.surface}' },
+        },
+        size: { small: { $type: 'dimension', $value: '4px' } },
+      },
+      platforms: {
+        css: {
+          transformGroup: 'css',
+          files: [
+            { destination: 'variables.css', format: 'css/variables' },
+            {
+              destination: 'colors.css',
+              format: 'css/variables',
+              filter: (token) => token.$type === 'color',
+            },
+          ],
+        },
+        js: {
+          transformGroup: 'js',
+          files: [{ destination: 'tokens.js', format: 'javascript/es6' }],
+        },
+      },
+    },
+    { init: false },
+  );
+  await sd.init();
+  return sd;
+};
+
+describe('inspectTokens', () => {
+  it('describes values, aliases, sources and platform outputs', async () => {
+    const sd = await createDictionary();
+
+    const tokens = await inspectTokens(sd, resolveTokenTree(sd), '/project');
+
+    expect(tokens.find((token) => token.path === 'color.surface-2')).toEqual({
+      path: 'color.surface-2',
+      type: 'color',
+      value: '{color.surface}',
+      resolvedValue: '#2798f5',
+      aliasChain: ['color.surface', 'color.brand'],
+      references: ['color.surface'],
+      outputs: [
+        {
+          platform: 'css',
+          name: 'color-surface-2',
+          value: '#2798f5',
+          files: ['variables.css', 'colors.css'],
+        },
+        {
+          platform: 'js',
+          name: 'ColorSurface2',
+          value: '#2798f5',
+          files: ['tokens.js'],
+        },
+      ],
+    });
+    expect(tokens.find((token) => token.path === 'color.brand')).toMatchObject({
+      filePath: 'src/colors.ts',
+      aliasChain: [],
+    });
+    expect(tokens.find((token) => token.path === 'color.surface')).toMatchObject(
+      { description: 'Page background' },
+    );
+    expect(
+      tokens.find((token) => token.path === 'size.small')?.outputs[0]?.files,
+    ).toEqual(['variables.css']);
+  });
+});
+
+describe('createInspectorMiddleware', () => {
+  const request = (url: string) => {
+    const res = { setHeader: vi.fn(), end: vi.fn() };
+    const next = vi.fn();
+    return { res, next, url };
+  };
+
+  it('serves the page and the inspection data under its route', async () => {
+    const configs = [{ name: 'default', tokens: [] }];
+    const middleware = createInspectorMiddleware('/app/', async () => configs);
+
+    const page = request('/');
+    middleware({ url: page.url } as never, page.res as never, page.next);
+    expect(page.res.end).toHaveBeenCalledWith(renderInspectorPage('/app/'));
+
+    const data = request('/tokens.json?t=1');
+    await new Promise<void>((resolve) => {
+      data.res.end.mockImplementation(() => resolve());
+      middleware({ url: data.url } as never, data.res as never, data.next);
+    });
+    expect(data.res.end).toHaveBeenCalledWith(JSON.stringify({ configs }));
+
+    const other = request('/other');
+    middleware({ url: other.url } as never, other.res as never, other.next);
+    expect(other.next).toHaveBeenCalledWith();
+  });
+
+  it('points the page at the data route and the Vite client under base', () => {
+    const page = renderInspectorPage('/app/');
+
+    expect(page).toContain('"base":"/app/__style-dictionary/"');
+    expect(page).toContain('"client":"/app/@vite/client"');
+    expect(page).toContain('"event":"style-dictionary:update"');
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createLogForwarder, toVerbosity } from '../src/logging';
+
+// Messages logged from this file stand in for Style Dictionary's.
+const callers = /logging\.test\.ts/;
+
+const createLogger = () => ({
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+});
+
+describe('createLogForwarder', () => {
+  it('maps console output onto logger levels with a prefix', async () => {
+    const logger = createLogger();
+    const forwardLogs = createLogForwarder('[vite:style-dictionary]', { callers });
+
+    await forwardLogs(logger as never, async () => {
+      console.log('\ncss');
+      console.log('✔︎ dist/variables.css');
+      console.log('⚠️ dist/variables.css\nWhile building variables.css, token collisions were found');
+      console.error('Reference Errors');
+    });
+
+    expect(logger.info.mock.calls).toEqual([
+      ['[vite:style-dictionary] css'],
+      ['[vite:style-dictionary] ✔︎ dist/variables.css'],
+    ]);
+    expect(logger.warn).toHaveBeenCalledWith(
+      '[vite:style-dictionary] ⚠️ dist/variables.css\nWhile building variables.css, token collisions were found',
+    );
+    expect(logger.error).toHaveBeenCalledWith(
+      '[vite:style-dictionary] Reference Errors',
+    );
+  });
+
+  it('deduplicates messages across builds and restores the console', async () => {
+    const logger = createLogger();
+    const forwardLogs = createLogForwarder('[sd]', { callers });
+    const originalLog = console.log;
+    const build = async () => {
+      console.log('Token collisions were found');
+      return 'done';
+    };
+
+    expect(await forwardLogs(logger as never, build)).toBe('done');
+    await forwardLogs(logger as never, build);
+
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+    expect(console.log).toBe(originalLog);
+  });
+
+  it('prints output from other callers untouched on every build', async () => {
+    const logger = createLogger();
+    const forwardLogs = createLogForwarder('[sd]', {
+      callers: /\bat styleDictionaryLog\b/,
+    });
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const styleDictionaryLog = (message: string) => console.log(message);
+    const build = async () => {
+      styleDictionaryLog('Token collisions were found');
+      console.log('[vite] hmr update, deprecated API');
+    };
+
+    try {
+      await forwardLogs(logger as never, build);
+      await forwardLogs(logger as never, build);
+
+      expect(logger.warn).toHaveBeenCalledTimes(1);
+      expect(logger.info).not.toHaveBeenCalled();
+      expect(log.mock.calls).toEqual([
+        ['[vite] hmr update, deprecated API'],
+        ['[vite] hmr update, deprecated API'],
+      ]);
+    } finally {
+      log.mockRestore();
+    }
+  });
+
+  it('lets loggers that print through the console through', async () => {
+    const forwardLogs = createLogForwarder('[sd]', { callers });
+    const printed: unknown[] = [];
+    const originalInfo = console.info;
+    console.info = (...args) => printed.push(...args);
+    const logger = {
+      ...createLogger(),
+      info: vi.fn((message: string) => console.info(message)),
+    };
+
+    try {
+      await forwardLogs(logger as never, async () => {
+        console.log('css');
+      });
+    } finally {
+      console.info = originalInfo;
+    }
+
+    expect(logger.info).toHaveBeenCalledTimes(1);
+    expect(printed).toEqual(['[sd] css']);
+  });
+
+  it('routes overlapping builds to their own loggers', async () => {
+    const loggers = [createLogger(), createLogger()];
+    const [forwardA, forwardB] = ['[a]', '[b]'].map((prefix) =>
+      createLogForwarder(prefix, { callers }),
+    );
+    const originalLog = console.log;
+    let finishA = () => {};
+
+    const a = forwardA(loggers[0] as never, async () => {
+      console.log('first css');
+      await new Promise<void>((resolve) => (finishA = resolve));
+      console.log('second css');
+    });
+    const b = forwardB(loggers[1] as never, async () => {
+      console.log('first js');
+      finishA();
+      await a;
+      console.log('second js');
+    });
+    await b;
+
+    expect(loggers[0].info.mock.calls).toEqual([
+      ['[a] first css'],
+      ['[a] second css'],
+    ]);
+    expect(loggers[1].info.mock.calls).toEqual([
+      ['[b] first js'],
+      ['[b] second js'],
+    ]);
+    expect(console.log).toBe(originalLog);
+  });
+
+  it('restores the console when the build throws', async () => {
+    const forwardLogs = createLogForwarder('[sd]', { callers });
+    const originalWarn = console.warn;
+
+    await expect(
+      forwardLogs(createLogger() as never, async () => {
+        throw new Error('boom');
+      }),
+    ).rejects.toThrow('boom');
+    expect(console.warn).toBe(originalWarn);
+  });
+});
+
+describe('toVerbosity', () => {
+  it('follows the Vite log level', () => {
+    expect(toVerbosity('silent')).toBe('silent');
+    expect(toVerbosity('error')).toBe('silent');
+    expect(toVerbosity('warn')).toBe('default');
+    expect(toVerbosity('info')).toBe('default');
+    expect(toVerbosity()).toBe('default');
+  });
+});
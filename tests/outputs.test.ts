@@ -0,0 +1,144 @@
+import { describe, expect, it, vi } from 'vitest';
+import StyleDictionary from 'style-dictionary';
+import type { DesignTokens } from 'style-dictionary/types';
+import {
+  diffOutputHashes,
+  getAffectedPlatforms,
+  getPlatformTokenPaths,
+  hashContent,
+} from '../src/outputs';
+
+const token = (name: string) => ({ path: name.split('.'), name });
+
+const createDictionary = (
+  platforms: Record<string, { filter?: (t: { path: string[] }) => boolean }>,
+  allTokens = [token('color.red'), token('size.small')],
+) =>
+  ({
+    hasInitialized: Promise.resolve(),
+    platforms,
+    options: {},
+    getPlatformConfig: (platform: string) => ({
+      files: [{ destination: 'out', filter: platforms[platform]?.filter }],
+    }),
+    getPlatformTokens: async () => ({ allTokens }),
+  }) as unknown as StyleDictionary;
+
+describe('getAffectedPlatforms', () => {
+  const sd = createDictionary({
+    css: {},
+    colors: { filter: ({ path }) => path[0] === 'color' },
+    sizes: { filter: ({ path }) => path[0] === 'size' },
+  });
+
+  it('selects platforms whose file filters accept a changed token', async () => {
+    expect(await getAffectedPlatforms(sd, new Set(['size.small']))).toEqual([
+      'css',
+      'sizes',
+    ]);
+  });
+
+  it('selects nothing when no token changed', async () => {
+    expect(await getAffectedPlatforms(sd, new Set())).toEqual([]);
+  });
+
+  it('rebuilds every platform when a changed token was removed', async () => {
+    expect(
+      await getAffectedPlatforms(sd, new Set(['size.small', 'color.blue'])),
+    ).toEqual(['css', 'colors', 'sizes']);
+  });
+
+  it('selects platforms whose filters accepted a changed token before', async () => {
+    const createColors = async (tokens: DesignTokens) => {
+      const colors = new StyleDictionary({
+        tokens,
+        log: { verbosity: 'silent' },
+        platforms: {
+          colors: {
+            files: [
+              {
+                destination: 'colors.json',
+                format: 'json',
+                filter: (token) => token.type === 'color',
+              },
+            ],
+          },
+        },
+      });
+      await colors.hasInitialized;
+      return colors;
+    };
+    const before = await createColors({
+      accent: { value: '#f00', type: 'color' },
+    });
+    const previous = await getPlatformTokenPaths(before, ['colors']);
+    expect(previous).toEqual(new Map([['colors', new Set(['accent'])]]));
+
+    const after = await createColors({
+      accent: { value: '4px', type: 'dimension' },
+    });
+    const changed = new Set(['accent']);
+
+    expect(await getAffectedPlatforms(after, changed)).toEqual([]);
+    expect(await getAffectedPlatforms(after, changed, previous)).toEqual([
+      'colors',
+    ]);
+  });
+});
+
+describe('diffOutputHashes', () => {
+  it('reports outputs whose content differs from the previous build', async () => {
+    const hashes = new Map([
+      ['css/a.css', hashContent('a')],
+      ['css/b.css', hashContent('b')],
+    ]);
+    const outputs = new Map([
+      ['css/a.css', 'a'],
+      ['css/b.css', 'changed'],
+    ]);
+
+    expect(await diffOutputHashes(outputs, hashes)).toEqual(
+      new Map([['css/b.css', hashContent('changed')]]),
+    );
+  });
+
+  it('compares unhashed outputs with their current content', async () => {
+    const readCurrent = vi.fn(async (key: string) =>
+      key === 'css/a.css' ? 'a' : undefined,
+    );
+    const outputs = new Map([
+      ['css/a.css', 'a'],
+      ['css/new.css', 'new'],
+    ]);
+
+    const changed = await diffOutputHashes(outputs, new Map(), readCurrent);
+
+    expect(Array.from(changed.keys())).toEqual(['css/new.css']);
+    expect(readCurrent).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports outputs deleted or edited since they were hashed', async () => {
+    const hashes = new Map([
+      ['css/a.css', hashContent('a')],
+      ['css/b.css', hashContent('b')],
+      ['css/c.css', hashContent('c')],
+    ]);
+    const outputs = new Map([
+      ['css/a.css', 'a'],
+      ['css/b.css', 'b'],
+      ['css/c.css', 'c'],
+    ]);
+    const current: Record<string, string> = {
+      'css/a.css': 'a',
+      'css/c.css': 'edited',
+    };
+
+    const changed = await diffOutputHashes(
+      outputs,
+      hashes,
+      async (key) => current[key],
+    );
+
+    expect(Array.from(changed.keys())).toEqual(['css/b.css', 'css/c.css']);
+  });
+});
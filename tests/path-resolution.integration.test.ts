@@ -1,10 +1,12 @@
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
 import fs from 'node:fs/promises';
 import os from 'node:os';
 import path from 'node:path';
-import { resolveConfig } from 'vite';
+import { build, createLogger, createServer, resolveConfig } from 'vite';
+import type { Rollup, ViteDevServer } from 'vite';
 import type { Config } from 'style-dictionary';
 import styleDictionaryPlugin from '../src/index';
+import { RESOLVED_TOKENS_MODULE_ID, TOKENS_MODULE_ID } from '../src/virtual-modules';
 
 const createFixture = async () => {
   const root = await fs.mkdtemp(path.join(os.tmpdir(), 'vite-sd-'));
@@ -13,7 +15,15 @@ const createFixture = async () => {
   await fs.mkdir(tokensDir, { recursive: true });
   await fs.writeFile(
     tokensFile,
-    "export default { color: { brand: { value: '#2798f5', type: 'color' } } };\n",
+    [
+      'export default {',
+      "  color: {",
+      "    brand: { value: '#2798f5', type: 'color' },",
+      "    primary: { value: '{color.brand}', type: 'color' },",
+      '  },',
+      '};',
+      '',
+    ].join('\n'),
     'utf8',
   );
 
@@ -61,3 +71,954 @@ describe('style dictionary integration with resolved paths', () => {
     }
   });
 });
+
+describe('token file formats', () => {
+  it('parses YAML and JSON5 sources next to TS modules', async () => {
+    const fixture = await createFixture();
+    try {
+      const tokensDir = path.dirname(fixture.sourceEntry);
+      await fs.writeFile(
+        path.join(tokensDir, 'size.yaml'),
+        ['size:', '  small:', '    value: 4px', ''].join('\n'),
+        'utf8',
+      );
+      await fs.writeFile(
+        path.join(tokensDir, 'font.json5'),
+        "{ font: { body: { value: 'Inter' } }, // trailing comma\n}\n",
+        'utf8',
+      );
+
+      await resolveConfig(
+        {
+          configFile: false,
+          root: fixture.root,
+          logLevel: 'silent',
+          plugins: [
+            styleDictionaryPlugin({
+              source: [
+                fixture.sourceEntry,
+                path.join(tokensDir, 'size.yaml'),
+                path.join(tokensDir, 'font.json5'),
+              ],
+              platforms: {
+                json: {
+                  transformGroup: 'js',
+                  buildPath: fixture.buildPath,
+                  files: [{ destination: 'tokens.json', format: 'json' }],
+                },
+              },
+            }),
+          ],
+        },
+        'build',
+        'production',
+      );
+
+      const output = JSON.parse(await fs.readFile(fixture.outputFile, 'utf8'));
+      expect(output.color.primary.value).toBe('#2798f5');
+      expect(output.size.small.value).toBe('4px');
+      expect(output.font.body.value).toBe('Inter');
+    } finally {
+      await fs.rm(fixture.root, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('virtual tokens module', () => {
+  it('serves the resolved token tree after building', async () => {
+    const fixture = await createFixture();
+    try {
+      const plugin = styleDictionaryPlugin({
+        source: [fixture.sourceEntry],
+        platforms: {
+          json: {
+            transformGroup: 'js',
+            buildPath: fixture.buildPath,
+            files: [{ destination: 'tokens.json', format: 'json' }],
+          },
+        },
+      });
+
+      await resolveConfig(
+        {
+          configFile: false,
+          root: fixture.root,
+          logLevel: 'silent',
+          plugins: [plugin],
+        },
+        'build',
+        'production',
+      );
+
+      const resolveId = plugin.resolveId as (id: string) => string | undefined;
+      const load = plugin.load as (id: string) => string | undefined;
+      expect(resolveId(TOKENS_MODULE_ID)).toBe(RESOLVED_TOKENS_MODULE_ID);
+
+      const code = load(RESOLVED_TOKENS_MODULE_ID) ?? '';
+      const tokens = JSON.parse(
+        code.replace(/^export default /, '').replace(/;\s*$/, ''),
+      );
+      expect(tokens.color.primary).toEqual({ value: '#2798f5', type: 'color' });
+    } finally {
+      await fs.rm(fixture.root, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('in-memory outputs', () => {
+  it('bundles virtual outputs without writing to buildPath', async () => {
+    const fixture = await createFixture();
+    try {
+      const entry = path.join(fixture.root, 'main.js');
+      await fs.writeFile(
+        entry,
+        "import 'virtual:style-dictionary/css/variables.css';\n",
+        'utf8',
+      );
+
+      const result = (await build({
+        configFile: false,
+        root: fixture.root,
+        logLevel: 'silent',
+        plugins: [
+          styleDictionaryPlugin(
+            {
+              source: [fixture.sourceEntry],
+              platforms: {
+                css: {
+                  transformGroup: 'css',
+                  buildPath: fixture.buildPath,
+                  files: [{ destination: 'variables.css', format: 'css/variables' }],
+                },
+              },
+            },
+            { inMemory: true },
+          ),
+        ],
+        build: {
+          write: false,
+          rollupOptions: { input: entry },
+        },
+      })) as Rollup.RollupOutput;
+
+      const css = result.output.find(
+        (file): file is Rollup.OutputAsset =>
+          file.type === 'asset' && file.fileName.endsWith('.css'),
+      );
+      expect(String(css?.source)).toContain('--color-primary: #2798f5');
+      await expect(fs.access(fixture.buildPath)).rejects.toThrow();
+    } finally {
+      await fs.rm(fixture.root, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('emitted assets', () => {
+  it('emits outputs as hashed assets listed in the manifest', async () => {
+    const fixture = await createFixture();
+    try {
+      const entry = path.join(fixture.root, 'main.js');
+      await fs.writeFile(entry, "console.log('app');\n", 'utf8');
+
+      const result = (await build({
+        configFile: false,
+        root: fixture.root,
+        logLevel: 'silent',
+        plugins: [
+          styleDictionaryPlugin(
+            {
+              source: [fixture.sourceEntry],
+              platforms: {
+                css: {
+                  transformGroup: 'css',
+                  buildPath: fixture.buildPath,
+                  files: [{ destination: 'variables.css', format: 'css/variables' }],
+                },
+              },
+            },
+            { emitAssets: true },
+          ),
+        ],
+        build: {
+          write: false,
+          manifest: true,
+          rollupOptions: { input: entry },
+        },
+      })) as Rollup.RollupOutput;
+
+      const assets = result.output.filter(
+        (file): file is Rollup.OutputAsset => file.type === 'asset',
+      );
+      const css = assets.find((file) => /variables-[\w-]+\.css$/.test(file.fileName));
+      expect(String(css?.source)).toContain('--color-primary: #2798f5');
+
+      const manifestAsset = assets.find((file) => file.fileName.endsWith('manifest.json'));
+      const manifest = JSON.parse(String(manifestAsset?.source));
+      expect(manifest['style-dictionary/variables.css'].file).toBe(css?.fileName);
+      await expect(fs.access(fixture.buildPath)).rejects.toThrow();
+    } finally {
+      await fs.rm(fixture.root, { recursive: true, force: true });
+    }
+  });
+  it('bundles imports of generated files from memory', async () => {
+    const fixture = await createFixture();
+    try {
+      const entry = path.join(fixture.root, 'main.js');
+      await fs.writeFile(
+        entry,
+        "import './style-dictionary/variables.css';\n",
+        'utf8',
+      );
+
+      const result = (await build({
+        configFile: false,
+        root: fixture.root,
+        logLevel: 'silent',
+        plugins: [
+          styleDictionaryPlugin(
+            {
+              source: [fixture.sourceEntry],
+              platforms: {
+                css: {
+                  transformGroup: 'css',
+                  buildPath: fixture.buildPath,
+                  files: [{ destination: 'variables.css', format: 'css/variables' }],
+                },
+              },
+            },
+            { emitAssets: true },
+          ),
+        ],
+        build: {
+          write: false,
+          rollupOptions: { input: entry },
+        },
+      })) as Rollup.RollupOutput;
+
+      const bundled = result.output.find(
+        (file): file is Rollup.OutputAsset =>
+          file.type === 'asset' && /^assets\/main-[\w-]+\.css$/.test(file.fileName),
+      );
+      expect(String(bundled?.source)).toContain('--color-primary: #2798f5');
+      await expect(fs.access(fixture.buildPath)).rejects.toThrow();
+    } finally {
+      await fs.rm(fixture.root, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('strict builds', () => {
+  it('fails the build when a token references a missing alias', async () => {
+    const fixture = await createFixture();
+    try {
+      await fs.writeFile(
+        fixture.sourceEntry,
+        "export default { color: { surface: { value: '{color.missing}', type: 'color' } } };\n",
+        'utf8',
+      );
+
+      await expect(
+        resolveConfig(
+          {
+            configFile: false,
+            root: fixture.root,
+            logLevel: 'silent',
+            plugins: [
+              styleDictionaryPlugin({
+                source: [fixture.sourceEntry],
+                platforms: {
+                  json: {
+                    transformGroup: 'js',
+                    buildPath: fixture.buildPath,
+                    files: [{ destination: 'tokens.json', format: 'json' }],
+                  },
+                },
+              }),
+            ],
+          },
+          'build',
+          'production',
+        ),
+      ).rejects.toThrow(
+        'color.surface tries to reference {color.missing}, which is not defined',
+      );
+    } finally {
+      await fs.rm(fixture.root, { recursive: true, force: true });
+    }
+  });
+
+  it("leaves broken references to the config's own log settings", async () => {
+    const fixture = await createFixture();
+    try {
+      await fs.writeFile(
+        fixture.sourceEntry,
+        "export default { color: { surface: { value: '{color.missing}', type: 'color' } } };\n",
+        'utf8',
+      );
+
+      await resolveConfig(
+        {
+          configFile: false,
+          root: fixture.root,
+          logLevel: 'silent',
+          plugins: [
+            styleDictionaryPlugin({
+              source: [fixture.sourceEntry],
+              log: { errors: { brokenReferences: 'console' } },
+              platforms: {
+                json: {
+                  transformGroup: 'js',
+                  buildPath: fixture.buildPath,
+                  files: [{ destination: 'tokens.json', format: 'json' }],
+                },
+              },
+            }),
+          ],
+        },
+        'build',
+        'production',
+      );
+
+      const output = JSON.parse(await fs.readFile(fixture.outputFile, 'utf8'));
+      expect(output.color.surface.value).toBe('{color.missing}');
+    } finally {
+      await fs.rm(fixture.root, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('token validation', () => {
+  it('warns about types and values outside the DTCG spec and builds', async () => {
+    const fixture = await createFixture();
+    try {
+      await fs.writeFile(
+        fixture.sourceEntry,
+        [
+          'export default {',
+          "  font: { $type: 'fontSize', body: { $value: '16px' } },",
+          "  weight: { $type: 'fontWeight', regular: { $value: '400' } },",
+          "  space: { $type: 'dimension', half: { $value: '0.5' } },",
+          '};',
+          '',
+        ].join('\n'),
+        'utf8',
+      );
+      const customLogger = createLogger('silent');
+      const warnOnce = vi.spyOn(customLogger, 'warnOnce');
+
+      await resolveConfig(
+        {
+          configFile: false,
+          root: fixture.root,
+          logLevel: 'silent',
+          customLogger,
+          plugins: [
+            styleDictionaryPlugin({
+              source: [fixture.sourceEntry],
+              platforms: {
+                json: {
+                  transformGroup: 'js',
+                  buildPath: fixture.buildPath,
+                  files: [{ destination: 'tokens.json', format: 'json' }],
+                },
+              },
+            }),
+          ],
+        },
+        'build',
+        'production',
+      );
+
+      const output = JSON.parse(await fs.readFile(fixture.outputFile, 'utf8'));
+      expect(output.space.half.$value).toBeDefined();
+      expect(warnOnce).toHaveBeenCalledTimes(1);
+      const [[message]] = warnOnce.mock.calls as [[string]];
+      expect(message).toContain('Design tokens outside the DTCG spec (3):');
+      expect(message).toContain(
+        `space.half: $value "0.5" is not a valid dimension (${fixture.sourceEntry})`,
+      );
+    } finally {
+      await fs.rm(fixture.root, { recursive: true, force: true });
+    }
+  });
+
+  it('fails the build with the path and file of an invalid DTCG token', async () => {
+    const fixture = await createFixture();
+    try {
+      await fs.writeFile(
+        fixture.sourceEntry,
+        [
+          'export default {',
+          "  color: { $type: 'color', brand: { $value: '#2798f5' } },",
+          "  motion: { fast: { $type: 'duration', $value: '120px' } },",
+          '};',
+          '',
+        ].join('\n'),
+        'utf8',
+      );
+
+      await expect(
+        resolveConfig(
+          {
+            configFile: false,
+            root: fixture.root,
+            logLevel: 'silent',
+            plugins: [
+              styleDictionaryPlugin(
+                {
+                  source: [fixture.sourceEntry],
+                  platforms: {
+                    json: {
+                      transformGroup: 'js',
+                      buildPath: fixture.buildPath,
+                      files: [{ destination: 'tokens.json', format: 'json' }],
+                    },
+                  },
+                },
+                { failOnWarnings: true },
+              ),
+            ],
+          },
+          'build',
+          'production',
+        ),
+      ).rejects.toThrow(
+        `motion.fast: $value "120px" is not a valid duration (${fixture.sourceEntry})`,
+      );
+    } finally {
+      await fs.rm(fixture.root, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('config file', () => {
+  it('loads a TypeScript config file and its imports through Vite', async () => {
+    const fixture = await createFixture();
+    try {
+      await fs.writeFile(
+        path.join(fixture.root, 'paths.ts'),
+        "export const buildPath: string = 'style-dictionary/';\n",
+        'utf8',
+      );
+      await fs.writeFile(
+        path.join(fixture.root, 'style-dictionary.config.ts'),
+        [
+          "import type { Config } from 'style-dictionary';",
+          "import { buildPath } from './paths';",
+          '',
+          'export default {',
+          "  source: ['src/theme/tokens/index.ts'],",
+          '  platforms: {',
+          '    json: {',
+          "      transformGroup: 'js',",
+          '      buildPath,',
+          "      files: [{ destination: 'tokens.json', format: 'json' }],",
+          '    },',
+          '  },',
+          '} satisfies Config;',
+          '',
+        ].join('\n'),
+        'utf8',
+      );
+
+      await resolveConfig(
+        {
+          configFile: false,
+          root: fixture.root,
+          logLevel: 'silent',
+          plugins: [styleDictionaryPlugin('style-dictionary.config.ts')],
+        },
+        'build',
+        'production',
+      );
+
+      const output = JSON.parse(await fs.readFile(fixture.outputFile, 'utf8'));
+      expect(output.color.brand.value).toBe('#2798f5');
+    } finally {
+      await fs.rm(fixture.root, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('hook modules', () => {
+  it('registers formats from TS hook modules that import through aliases', async () => {
+    const fixture = await createFixture();
+    try {
+      const sdDir = path.join(fixture.root, 'sd');
+      await fs.mkdir(sdDir, { recursive: true });
+      await fs.writeFile(
+        path.join(sdDir, 'banner.ts'),
+        "export const banner: string = '/* generated */';\n",
+        'utf8',
+      );
+      await fs.writeFile(
+        path.join(sdDir, 'hooks.ts'),
+        [
+          "import type { Hooks } from 'style-dictionary/types';",
+          "import { banner } from '@sd/banner';",
+          '',
+          'export default {',
+          '  formats: {',
+          "    'custom/names': ({ dictionary }) =>",
+          "      [banner, ...dictionary.allTokens.map((token) => token.name)].join('\\n'),",
+          '  },',
+          '} satisfies Hooks;',
+          '',
+        ].join('\n'),
+        'utf8',
+      );
+
+      await resolveConfig(
+        {
+          configFile: false,
+          root: fixture.root,
+          logLevel: 'silent',
+          resolve: { alias: { '@sd': sdDir } },
+          plugins: [
+            styleDictionaryPlugin(
+              {
+                source: [fixture.sourceEntry],
+                platforms: {
+                  names: {
+                    transformGroup: 'js',
+                    buildPath: fixture.buildPath,
+                    files: [{ destination: 'names.txt', format: 'custom/names' }],
+                  },
+                },
+              },
+              { hookModules: 'sd/hooks.ts' },
+            ),
+          ],
+        },
+        'build',
+        'production',
+      );
+
+      const output = await fs.readFile(
+        path.join(fixture.buildPath, 'names.txt'),
+        'utf8',
+      );
+      expect(output.split('\n')).toEqual([
+        '/* generated */',
+        'ColorBrand',
+        'ColorPrimary',
+      ]);
+    } finally {
+      await fs.rm(fixture.root, { recursive: true, force: true });
+    }
+  });
+
+  it('applies parsers from hook modules', async () => {
+    const fixture = await createFixture();
+    try {
+      const csvFile = path.join(fixture.root, 'spacing.csv');
+      await fs.writeFile(csvFile, 'small,4px\nlarge,16px\n', 'utf8');
+      await fs.writeFile(
+        path.join(fixture.root, 'hooks.ts'),
+        [
+          "import type { Hooks } from 'style-dictionary/types';",
+          '',
+          'export default {',
+          '  parsers: {',
+          "    'custom/csv': {",
+          '      pattern: /\\.csv$/,',
+          '      parser: ({ contents }) => ({',
+          '        space: Object.fromEntries(',
+          '          contents',
+          '            .trim()',
+          "            .split('\\n')",
+          "            .map((line) => line.split(','))",
+          '            .map(([name, value]) => [name, { value }]),',
+          '        ),',
+          '      }),',
+          '    },',
+          '  },',
+          '} satisfies Hooks;',
+          '',
+        ].join('\n'),
+        'utf8',
+      );
+
+      await resolveConfig(
+        {
+          configFile: false,
+          root: fixture.root,
+          logLevel: 'silent',
+          plugins: [
+            styleDictionaryPlugin(
+              {
+                source: [fixture.sourceEntry, csvFile],
+                platforms: {
+                  json: {
+                    transformGroup: 'js',
+                    buildPath: fixture.buildPath,
+                    files: [{ destination: 'tokens.json', format: 'json' }],
+                  },
+                },
+              },
+              { hookModules: 'hooks.ts' },
+            ),
+          ],
+        },
+        'build',
+        'production',
+      );
+
+      const output = JSON.parse(await fs.readFile(fixture.outputFile, 'utf8'));
+      expect(output.space).toMatchObject({
+        small: { value: '4px' },
+        large: { value: '16px' },
+      });
+    } finally {
+      await fs.rm(fixture.root, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('token factories', () => {
+  it('builds tokens returned by a factory for the current mode', async () => {
+    const fixture = await createFixture();
+    try {
+      await fs.writeFile(
+        fixture.sourceEntry,
+        [
+          'export default async ({ mode, command }: { mode: string; command: string }) => ({',
+          '  color: {',
+          "    brand: { value: mode === 'production' ? '#000' : '#fff' },",
+          "    ...(command === 'serve' && { debug: { value: '#f0f' } }),",
+          '  },',
+          '});',
+          '',
+        ].join('\n'),
+        'utf8',
+      );
+
+      await resolveConfig(
+        {
+          configFile: false,
+          root: fixture.root,
+          logLevel: 'silent',
+          plugins: [
+            styleDictionaryPlugin({
+              source: [fixture.sourceEntry],
+              platforms: {
+                json: {
+                  transformGroup: 'js',
+                  buildPath: fixture.buildPath,
+                  files: [{ destination: 'tokens.json', format: 'json' }],
+                },
+              },
+            }),
+          ],
+        },
+        'build',
+        'production',
+      );
+
+      const output = JSON.parse(await fs.readFile(fixture.outputFile, 'utf8'));
+      expect(output.color.brand.value).toBe('#000');
+      expect(output.color.debug).toBeUndefined();
+    } finally {
+      await fs.rm(fixture.root, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('named token exports', () => {
+  it('feeds several themes from the named exports of one module', async () => {
+    const fixture = await createFixture();
+    try {
+      const themesFile = path.join(fixture.root, 'src', 'theme', 'modes.ts');
+      await fs.writeFile(
+        themesFile,
+        [
+          "export const light = { color: { surface: { value: '#fff' } } };",
+          "export const dark = { color: { surface: { value: '#000' } } };",
+          '',
+        ].join('\n'),
+        'utf8',
+      );
+
+      await resolveConfig(
+        {
+          configFile: false,
+          root: fixture.root,
+          logLevel: 'silent',
+          plugins: [
+            styleDictionaryPlugin(
+              {
+                source: [fixture.sourceEntry],
+                platforms: {
+                  json: {
+                    transformGroup: 'js',
+                    buildPath: fixture.buildPath,
+                    files: [{ destination: '{mode}.json', format: 'json' }],
+                  },
+                },
+              },
+              {
+                themes: {
+                  mode: {
+                    light: 'src/theme/modes.ts#light',
+                    dark: 'src/theme/modes.ts#dark',
+                  },
+                },
+              },
+            ),
+          ],
+        },
+        'build',
+        'production',
+      );
+
+      const read = async (file: string) =>
+        JSON.parse(await fs.readFile(path.join(fixture.buildPath, file), 'utf8'));
+      expect((await read('light.json')).color.surface.value).toBe('#fff');
+      expect((await read('dark.json')).color.surface.value).toBe('#000');
+      expect((await read('dark.json')).color.brand.value).toBe('#2798f5');
+    } finally {
+      await fs.rm(fixture.root, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('logging', () => {
+  it("forwards Style Dictionary's output and leaves other output alone", async () => {
+    const fixture = await createFixture();
+    try {
+      await fs.writeFile(
+        fixture.sourceEntry,
+        [
+          'export default () => {',
+          "  console.log('building tokens, deprecated palette');",
+          "  return { color: { brand: { value: '#000' } } };",
+          '};',
+          '',
+        ].join('\n'),
+        'utf8',
+      );
+      const customLogger = createLogger('silent');
+      const info = vi.spyOn(customLogger, 'info');
+      const warn = vi.spyOn(customLogger, 'warn');
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      try {
+        await resolveConfig(
+          {
+            configFile: false,
+            root: fixture.root,
+            customLogger,
+            plugins: [
+              styleDictionaryPlugin({
+                source: [fixture.sourceEntry],
+                platforms: {
+                  json: {
+                    transformGroup: 'js',
+                    buildPath: fixture.buildPath,
+                    files: [{ destination: 'tokens.json', format: 'json' }],
+                  },
+                },
+              }),
+            ],
+          },
+          'build',
+          'production',
+        );
+
+        expect(info).toHaveBeenCalledWith(
+          expect.stringMatching(/^\[vite:style-dictionary\] .*tokens\.json/),
+        );
+        expect(warn).not.toHaveBeenCalled();
+        expect(log).toHaveBeenCalledWith('building tokens, deprecated palette');
+      } finally {
+        log.mockRestore();
+      }
+    } finally {
+      await fs.rm(fixture.root, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('build cache', () => {
+  it('skips builds until a token module, glob match or output changes', async () => {
+    const fixture = await createFixture();
+    try {
+      const tokensDir = path.dirname(fixture.sourceEntry);
+      const palette = path.join(tokensDir, 'palette.ts');
+      await fs.writeFile(palette, "export const brand = '#2798f5';\n", 'utf8');
+      await fs.writeFile(
+        fixture.sourceEntry,
+        [
+          "import { brand } from './palette';",
+          'export default { color: { brand: { value: brand } } };',
+          '',
+        ].join('\n'),
+        'utf8',
+      );
+      const sdConfig: Config = {
+        source: [fixture.sourceEntry, path.join(tokensDir, '*.json')],
+        platforms: {
+          json: {
+            transformGroup: 'js',
+            buildPath: fixture.buildPath,
+            files: [{ destination: 'tokens.json', format: 'json' }],
+          },
+        },
+      };
+      const runBuild = async () => {
+        const customLogger = createLogger('silent');
+        const info = vi.spyOn(customLogger, 'info');
+        await resolveConfig(
+          {
+            configFile: false,
+            root: fixture.root,
+            logLevel: 'silent',
+            customLogger,
+            plugins: [styleDictionaryPlugin(sdConfig)],
+          },
+          'build',
+          'production',
+        );
+        return info.mock.calls.some(([message]) =>
+          message.includes('using cached outputs'),
+        );
+      };
+      const read = async () =>
+        JSON.parse(await fs.readFile(fixture.outputFile, 'utf8'));
+
+      expect(await runBuild()).toBe(false);
+      expect(await runBuild()).toBe(true);
+
+      await fs.writeFile(palette, "export const brand = '#ff0000';\n", 'utf8');
+      expect(await runBuild()).toBe(false);
+      expect((await read()).color.brand.value).toBe('#ff0000');
+
+      await fs.writeFile(
+        path.join(tokensDir, 'size.json'),
+        JSON.stringify({ size: { small: { value: '4px' } } }),
+        'utf8',
+      );
+      expect(await runBuild()).toBe(false);
+      expect((await read()).size.small.value).toBe('4px');
+
+      await fs.writeFile(
+        path.join(tokensDir, 'size.json'),
+        JSON.stringify({ size: { small: { value: '6px' } } }),
+        'utf8',
+      );
+      expect(await runBuild()).toBe(false);
+      expect((await read()).size.small.value).toBe('6px');
+
+      await fs.writeFile(fixture.outputFile, '{}', 'utf8');
+      expect(await runBuild()).toBe(false);
+      expect((await read()).color.brand.value).toBe('#ff0000');
+      expect(await runBuild()).toBe(true);
+    } finally {
+      await fs.rm(fixture.root, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('test runs', () => {
+  it('builds once when Vitest resolves the config for many projects', async () => {
+    const fixture = await createFixture();
+    try {
+      const sdConfig: Config = {
+        source: [fixture.sourceEntry],
+        platforms: {
+          json: {
+            transformGroup: 'js',
+            buildPath: fixture.buildPath,
+            files: [{ destination: 'tokens.json', format: 'json' }],
+          },
+        },
+      };
+      const resolveProject = async () => {
+        const customLogger = createLogger('silent');
+        const info = vi.spyOn(customLogger, 'info');
+        await resolveConfig(
+          {
+            configFile: false,
+            root: fixture.root,
+            logLevel: 'silent',
+            customLogger,
+            plugins: [styleDictionaryPlugin(sdConfig)],
+          },
+          'serve',
+          'test',
+        );
+        return info.mock.calls.some(([message]) =>
+          message.includes('using cached outputs'),
+        );
+      };
+
+      const cached = await Promise.all([
+        resolveProject(),
+        resolveProject(),
+        resolveProject(),
+      ]);
+
+      expect(cached.filter((hit) => !hit)).toHaveLength(1);
+      const output = JSON.parse(await fs.readFile(fixture.outputFile, 'utf8'));
+      expect(output.color.primary.value).toBe('#2798f5');
+    } finally {
+      await fs.rm(fixture.root, { recursive: true, force: true });
+    }
+  });
+
+  it('runs builds and watch-mode rebuilds of a config one at a time', async () => {
+    const fixture = await createFixture();
+    const servers: ViteDevServer[] = [];
+    try {
+      const events: string[] = [];
+      const sdConfig: Config = {
+        source: [fixture.sourceEntry],
+        hooks: {
+          formats: {
+            'test/slow': async () => {
+              events.push('start');
+              await new Promise((resolve) => setTimeout(resolve, 20));
+              events.push('end');
+              return '{}';
+            },
+          },
+        },
+        platforms: {
+          json: {
+            buildPath: fixture.buildPath,
+            files: [{ destination: 'tokens.json', format: 'test/slow' }],
+          },
+        },
+      };
+      const startProject = () =>
+        createServer({
+          configFile: false,
+          root: fixture.root,
+          logLevel: 'silent',
+          mode: 'test',
+          appType: 'custom',
+          server: { middlewareMode: true, ws: false, watch: {} },
+          plugins: [
+            styleDictionaryPlugin(sdConfig, { cache: false, debounce: 0 }),
+          ],
+        });
+
+      servers.push(...(await Promise.all([startProject(), startProject()])));
+      expect(events).toEqual(['start', 'end', 'start', 'end']);
+
+      await fs.writeFile(
+        fixture.sourceEntry,
+        "export default { color: { brand: { value: '#000' } } };\n",
+        'utf8',
+      );
+      servers.forEach((server) =>
+        server.watcher.emit('change', fixture.sourceEntry),
+      );
+      await vi.waitFor(() => expect(events).toHaveLength(8));
+      expect(events).toEqual(Array(4).fill(['start', 'end']).flat());
+    } finally {
+      await Promise.all(servers.map((server) => server.close()));
+      await fs.rm(fixture.root, { recursive: true, force: true });
+    }
+  });
+});
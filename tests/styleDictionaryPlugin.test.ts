@@ -2,28 +2,68 @@ import { beforeEach, afterEach, describe, expect, it, vi } from 'vitest';
 import path from 'node:path';
 import { castArray } from 'lodash-es';
 
-vi.mock('vite', () => {
+vi.mock('vite', async (importOriginal) => {
+  const { createFilter } = await importOriginal<typeof import('vite')>();
   const createServer = vi.fn();
-  const createFilter = (includes: string[] | string) => {
-    const includeList = castArray(includes);
-    const includeSet = new Set(includeList);
-    return (id: string) => includeSet.has(id);
-  };
   return { createServer, createFilter };
 });
 
+vi.mock('node:fs/promises', () => ({
+  default: {
+    readFile: vi.fn().mockRejectedValue(new Error('ENOENT')),
+    writeFile: vi.fn().mockResolvedValue(undefined),
+    mkdir: vi.fn().mockResolvedValue(undefined),
+    rm: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
 vi.mock('style-dictionary', () => {
-  const buildAllPlatformsMock = vi.fn().mockResolvedValue(undefined);
+  const formatPlatformMock = vi.fn().mockResolvedValue([]);
+  const tokensMock = vi.fn(() => ({}));
   class StyleDictionaryMock {
     static instances: StyleDictionaryMock[] = [];
-    static buildAllPlatformsMock = buildAllPlatformsMock;
-    config: unknown;
-    constructor(config: unknown) {
+    static formatPlatformMock = formatPlatformMock;
+    static tokensMock = tokensMock;
+    // Files matched by the sources, handed to the registered parsers on init.
+    static parsedFiles: string[] = [];
+    config: {
+      platforms?: Record<string, unknown>;
+      hooks?: {
+        parsers?: Record<
+          string,
+          { pattern: RegExp; parser: (options: object) => unknown }
+        >;
+      };
+    };
+    options = {};
+    hasInitialized = Promise.resolve();
+    constructor(config: StyleDictionaryMock['config']) {
       this.config = config;
       StyleDictionaryMock.instances.push(this);
     }
-    buildAllPlatforms() {
-      return buildAllPlatformsMock();
+    get platforms() {
+      return this.config.platforms;
+    }
+    get tokens() {
+      return tokensMock();
+    }
+    async init() {
+      for (const filePath of StyleDictionaryMock.parsedFiles) {
+        const parsers = Object.values(this.config.hooks?.parsers ?? {});
+        for (const { pattern, parser } of parsers) {
+          if (pattern.test(filePath)) await parser({ filePath, contents: '' });
+        }
+      }
+      return this;
+    }
+    getPlatformConfig(platform: string) {
+      return this.config.platforms?.[platform];
+    }
+    async getPlatformTokens() {
+      return { tokens: {}, allTokens: [] };
+    }
+    formatPlatform(platform: string) {
+      return formatPlatformMock(platform);
     }
   }
 
@@ -32,17 +72,25 @@ vi.mock('style-dictionary', () => {
 
 import styleDictionaryPlugin from '../src/index';
 import {
+  createExportSelector,
   createTokensLoader,
+  diffTokenPaths,
+  getAffectedSourceSets,
   getGeneratedFiles,
   isRelevantChange,
+  normalizeConfigs,
   parseTokenModule,
+  resolveTokenTree,
 } from '../src/internal';
 import { createServer } from 'vite';
+import fs from 'node:fs/promises';
 import StyleDictionary, { type Config } from 'style-dictionary';
 
 const StyleDictionaryMock = StyleDictionary as unknown as {
   instances: unknown[];
-  buildAllPlatformsMock: ReturnType<typeof vi.fn>;
+  formatPlatformMock: ReturnType<typeof vi.fn>;
+  tokensMock: ReturnType<typeof vi.fn>;
+  parsedFiles: string[];
 };
 const createServerMock = createServer as unknown as ReturnType<typeof vi.fn>;
 
@@ -63,6 +111,18 @@ const restoreVitestDetection = () => {
   }
 };
 
+// Every build produces different tokens and outputs, so each rebuild reports
+// its outputs and tokens module as changed.
+const mockChangingBuilds = () => {
+  const version = () => `v${StyleDictionaryMock.instances.length}`;
+  StyleDictionaryMock.tokensMock.mockImplementation(() => ({
+    color: { value: version() },
+  }));
+  StyleDictionaryMock.formatPlatformMock.mockImplementation(async () => [
+    { output: version() },
+  ]);
+};
+
 type Hook<T extends (...args: any[]) => any> = T | { handler: T };
 
 const runHook = <T extends (...args: any[]) => any>(
@@ -76,8 +136,16 @@ const runHook = <T extends (...args: any[]) => any>(
 
 beforeEach(() => {
   StyleDictionaryMock.instances = [];
-  StyleDictionaryMock.buildAllPlatformsMock.mockClear();
+  StyleDictionaryMock.parsedFiles = [];
+  StyleDictionaryMock.formatPlatformMock.mockReset();
+  StyleDictionaryMock.formatPlatformMock.mockResolvedValue([]);
+  StyleDictionaryMock.tokensMock.mockReset();
+  StyleDictionaryMock.tokensMock.mockReturnValue({});
   createServerMock.mockReset();
+  vi.mocked(fs.readFile).mockReset();
+  vi.mocked(fs.readFile).mockRejectedValue(new Error('ENOENT'));
+  vi.mocked(fs.writeFile).mockClear();
+  vi.mocked(fs.rm).mockClear();
 });
 
 afterEach(() => {
@@ -138,6 +206,170 @@ describe('token loading', () => {
     expect(server.ssrLoadModule).toHaveBeenCalledWith('/root/project/tokens/index.ts');
   });
 
+  it('calls factory exports with the build context', async () => {
+    const factory = vi.fn(async ({ mode }: { mode: string }) => ({
+      debug: { value: mode === 'development' },
+    }));
+    const server = {
+      config: { root: '/root/project' },
+      pluginContainer: {
+        resolveId: vi.fn().mockResolvedValue({ id: '/root/project/tokens.ts' }),
+      },
+      ssrLoadModule: vi.fn().mockResolvedValue({ default: factory }),
+    };
+    const loadTokens = createTokensLoader(() => server as never);
+    const context = {
+      mode: 'development',
+      command: 'serve' as const,
+      config: 'default',
+      env: { DEV: true },
+    };
+
+    const tokens = await loadTokens('/root/project/tokens.ts', context);
+
+    expect(tokens).toEqual({ debug: { value: true } });
+    expect(factory).toHaveBeenCalledWith(context);
+  });
+
+  it('loads only script modules through Vite', async () => {
+    const root = '/root/project';
+    const ssrLoadModule = vi.fn().mockResolvedValue({ default: {} });
+    const jsonParser = vi.fn().mockReturnValue({});
+    StyleDictionaryMock.parsedFiles = [
+      path.join(root, 'tokens.ts'),
+      path.join(root, 'colors.json'),
+    ];
+    createServerMock.mockResolvedValue({
+      close: vi.fn().mockResolvedValue(undefined),
+      config: { root, mode: 'development', command: 'serve' },
+      pluginContainer: {
+        resolveId: vi.fn(async (id: string) => ({ id })),
+      },
+      ssrLoadModule,
+    });
+
+    const plugin = styleDictionaryPlugin({
+      source: ['tokens.ts', 'colors.json'],
+      parsers: ['json-tokens'],
+      hooks: {
+        parsers: {
+          'json-tokens': { pattern: /\.json$/, parser: jsonParser },
+        },
+      },
+    });
+
+    await runHook(plugin.configResolved, {
+      root,
+      mode: 'test',
+      command: 'serve',
+      logger: { error: vi.fn() },
+      logLevel: 'info',
+      resolve: {},
+      define: {},
+      css: {},
+      plugins: [plugin],
+    } as never);
+
+    expect(ssrLoadModule).toHaveBeenCalledTimes(1);
+    expect(ssrLoadModule).toHaveBeenCalledWith(path.join(root, 'tokens.ts'));
+    expect(jsonParser).toHaveBeenCalledWith({
+      filePath: path.join(root, 'colors.json'),
+      contents: '',
+    });
+  });
+
+  it('passes the Vite mode, command and theme to token factories', async () => {
+    const root = '/root/project';
+    const factory = vi.fn().mockReturnValue({});
+    StyleDictionaryMock.parsedFiles = [path.join(root, 'tokens.ts')];
+    createServerMock.mockResolvedValue({
+      close: vi.fn().mockResolvedValue(undefined),
+      config: { root, mode: 'development', command: 'serve' },
+      pluginContainer: {
+        resolveId: vi.fn(async (id: string) => ({ id })),
+      },
+      ssrLoadModule: vi.fn().mockResolvedValue({ default: factory }),
+    });
+
+    const plugin = styleDictionaryPlugin(
+      { source: ['tokens.ts'] },
+      { themes: { mode: { light: [], dark: [] } } },
+    );
+
+    await runHook(plugin.configResolved, {
+      root,
+      mode: 'test',
+      command: 'serve',
+      env: { MODE: 'test' },
+      logger: { error: vi.fn() },
+      logLevel: 'info',
+      resolve: {},
+      define: {},
+      css: {},
+      plugins: [plugin],
+    } as never);
+
+    expect(factory.mock.calls).toEqual([
+      [
+        {
+          mode: 'test',
+          command: 'serve',
+          config: 'light',
+          theme: { mode: 'light' },
+          env: { MODE: 'test' },
+        },
+      ],
+      [
+        {
+          mode: 'test',
+          command: 'serve',
+          config: 'dark',
+          theme: { mode: 'dark' },
+          env: { MODE: 'test' },
+        },
+      ],
+    ]);
+  });
+
+  it('selects named exports and merges all of them with *', async () => {
+    const server = {
+      config: { root: '/root/project' },
+      pluginContainer: {
+        resolveId: vi.fn().mockResolvedValue({ id: '/root/project/tokens.ts' }),
+      },
+      ssrLoadModule: vi.fn().mockResolvedValue({
+        colors: { color: { red: { value: '#f00' } } },
+        spacing: () => ({ size: { small: { value: '4px' } } }),
+      }),
+    };
+    const loadTokens = createTokensLoader(() => server as never);
+
+    expect(
+      await loadTokens('/root/project/tokens.ts', undefined, 'colors'),
+    ).toEqual({ color: { red: { value: '#f00' } } });
+    expect(await loadTokens('/root/project/tokens.ts', undefined, '*')).toEqual({
+      color: { red: { value: '#f00' } },
+      size: { small: { value: '4px' } },
+    });
+    await expect(
+      loadTokens('/root/project/tokens.ts', undefined, 'light'),
+    ).rejects.toThrow(
+      '[style-dictionary] /root/project/tokens.ts has no export named "light" (available: colors, spacing)',
+    );
+  });
+
+  it('maps loaded files to the export selected by their source', () => {
+    const root = '/root/project';
+    const selectExport = createExportSelector(
+      ['/root/project/tokens.ts#light', 'themes/**/*.ts#*', 'base.ts'],
+      root,
+    );
+
+    expect(selectExport('/root/project/tokens.ts')).toBe('light');
+    expect(selectExport('/root/project/themes/acme/colors.ts')).toBe('*');
+    expect(selectExport('/root/project/base.ts')).toBeUndefined();
+  });
+
   it('requires a default export object', async () => {
     const loadTokens = vi.fn().mockResolvedValue('not-an-object');
 
@@ -150,8 +382,87 @@ describe('token loading', () => {
   });
 });
 
+describe('resolved token tree', () => {
+  it('resolves aliases and strips source metadata', () => {
+    const tree = resolveTokenTree({
+      tokens: {
+        color: {
+          brand: { value: '#2798f5', type: 'color', filePath: 'tokens.ts', isSource: true },
+          primary: { value: '{color.brand}', type: 'color' },
+        },
+        shadow: { value: { color: '{color.primary}', blur: '2px' } },
+      },
+      usesDtcg: false,
+    });
+
+    expect(tree).toEqual({
+      color: {
+        brand: { value: '#2798f5', type: 'color' },
+        primary: { value: '#2798f5', type: 'color' },
+      },
+      shadow: { value: { color: '#2798f5', blur: '2px' } },
+    });
+  });
+
+  it('resolves DTCG $value aliases', () => {
+    const tree = resolveTokenTree({
+      tokens: {
+        size: {
+          base: { $value: '4px', $type: 'dimension' },
+          gap: { $value: '{size.base}', $type: 'dimension' },
+        },
+      },
+      usesDtcg: true,
+    });
+
+    expect(tree).toEqual({
+      size: {
+        base: { $value: '4px', $type: 'dimension' },
+        gap: { $value: '4px', $type: 'dimension' },
+      },
+    });
+  });
+
+  it('keeps broken references unresolved', () => {
+    const tree = resolveTokenTree({
+      tokens: {
+        color: {
+          brand: { value: '#2798f5' },
+          primary: { value: '{color.missing}' },
+        },
+      },
+    });
+
+    expect(tree).toEqual({
+      color: {
+        brand: { value: '#2798f5' },
+        primary: { value: '{color.missing}' },
+      },
+    });
+  });
+});
+
+describe('token diffs', () => {
+  it('lists added, removed and changed token paths', () => {
+    const previous = {
+      color: { red: { value: '#f00' }, blue: { value: '#00f' } },
+      size: { value: '4px' },
+    };
+    const next = {
+      color: { red: { value: '#e00' }, green: { value: '#0f0' } },
+      size: { value: '4px' },
+    };
+
+    expect(diffTokenPaths(previous, next)).toEqual(
+      new Set(['color.red', 'color.blue', 'color.green']),
+    );
+    expect(diffTokenPaths(next, next)).toEqual(new Set());
+  });
+});
+
 describe('build timing and HMR behavior', () => {
   it('builds on dev server startup and on relevant HMR changes', async () => {
+    mockChangingBuilds();
     resetVitestDetection();
     const root = '/root/project';
     const tokensFile = path.join(root, 'tokens.ts');
@@ -176,14 +487,16 @@ describe('build timing and HMR behavior', () => {
       pluginContainer: {
         resolveId: vi.fn().mockResolvedValue({ id: tokensFile }),
       },
-      watcher: { add: vi.fn() },
+      watcher: { add: vi.fn(), on: vi.fn() },
+      middlewares: { use: vi.fn() },
       moduleGraph: {
         getModulesByFile: (file: string) => {
           if (file === tokensFile) return new Set([entryModule]);
           if (file === depFile) return new Set([depModule]);
           return new Set();
         },
-        getModuleById: vi.fn().mockReturnValue({ id: 'generated' }),
+        getModuleById: vi.fn((id: string) => ({ id })),
+        invalidateModule: vi.fn(),
       },
     };
 
@@ -199,7 +512,7 @@ describe('build timing and HMR behavior', () => {
 
     await runHook(plugin.configureServer, server as never);
 
-    expect(StyleDictionaryMock.buildAllPlatformsMock).toHaveBeenCalledTimes(1);
+    expect(StyleDictionaryMock.instances).toHaveLength(1);
     expect(server.watcher.add).toHaveBeenCalledWith([tokensFile]);
 
     await runHook(plugin.handleHotUpdate, {
@@ -207,14 +520,130 @@ describe('build timing and HMR behavior', () => {
       server: server as never,
     } as never);
 
-    expect(StyleDictionaryMock.buildAllPlatformsMock).toHaveBeenCalledTimes(2);
+    expect(StyleDictionaryMock.instances).toHaveLength(2);
+    expect(server.moduleGraph.invalidateModule).toHaveBeenCalled();
 
     await runHook(plugin.handleHotUpdate, {
       file: path.join(root, 'unrelated.ts'),
       server: server as never,
     } as never);
 
-    expect(StyleDictionaryMock.buildAllPlatformsMock).toHaveBeenCalledTimes(2);
+    expect(StyleDictionaryMock.instances).toHaveLength(2);
+  });
+
+  it('rebuilds when files matching a glob source are added or removed', async () => {
+    mockChangingBuilds();
+    resetVitestDetection();
+    const root = '/root/project';
+    const listeners = new Map<string, (file: string) => void>();
+    const server = {
+      config: {
+        root,
+        mode: 'development',
+        command: 'serve',
+        logger: { error: vi.fn() },
+      },
+      pluginContainer: { resolveId: vi.fn() },
+      watcher: {
+        add: vi.fn(),
+        on: vi.fn((event: string, listener: (file: string) => void) =>
+          listeners.set(event, listener),
+        ),
+      },
+      middlewares: { use: vi.fn() },
+      moduleGraph: {
+        getModulesByFile: () => undefined,
+        getModuleById: vi.fn((id: string) => ({ id })),
+        invalidateModule: vi.fn(),
+      },
+      reloadModule: vi.fn().mockResolvedValue(undefined),
+    };
+
+    const plugin = styleDictionaryPlugin(
+      {
+        source: ['tokens/**/*.json'],
+        platforms: {
+          web: { buildPath: 'dist', files: [{ destination: 'tokens.json' }] },
+        },
+      },
+      { debounce: 0 },
+    );
+
+    await runHook(plugin.configureServer, server as never);
+    expect(StyleDictionaryMock.instances).toHaveLength(1);
+
+    listeners.get('add')?.(path.join(root, 'tokens', 'unrelated.ts'));
+    listeners.get('add')?.(path.join(root, 'tokens', 'button.json'));
+    await vi.waitFor(() => expect(server.reloadModule).toHaveBeenCalled());
+
+    expect(StyleDictionaryMock.instances).toHaveLength(2);
+    expect(server.reloadModule).toHaveBeenCalledWith({
+      id: path.resolve(root, 'dist', 'tokens.json'),
+    });
+
+    listeners.get('unlink')?.(path.join(root, 'tokens', 'button.json'));
+    await vi.waitFor(() =>
+      expect(StyleDictionaryMock.instances).toHaveLength(3),
+    );
+  });
+
+  it('rebuilds when a module imported by a glob-matched source changes', async () => {
+    mockChangingBuilds();
+    resetVitestDetection();
+    const root = '/root/project';
+    const buttonFile = path.join(root, 'tokens', 'button.ts');
+    const paletteFile = path.join(root, 'palette.ts');
+    const buttonModule = {
+      importedModules: new Set<unknown>(),
+      ssrImportedModules: new Set<unknown>(),
+    };
+    const paletteModule = {
+      importedModules: new Set<unknown>(),
+      ssrImportedModules: new Set<unknown>(),
+    };
+    buttonModule.ssrImportedModules.add(paletteModule);
+    StyleDictionaryMock.parsedFiles = [buttonFile];
+
+    const server = {
+      config: {
+        root,
+        mode: 'development',
+        command: 'serve',
+        logger: { error: vi.fn() },
+      },
+      pluginContainer: {
+        resolveId: vi.fn(async (id: string) => ({ id })),
+      },
+      ssrLoadModule: vi.fn().mockResolvedValue({ default: {} }),
+      watcher: { add: vi.fn(), on: vi.fn() },
+      middlewares: { use: vi.fn() },
+      moduleGraph: {
+        getModulesByFile: (file: string) => {
+          if (file === buttonFile) return new Set([buttonModule]);
+          if (file === paletteFile) return new Set([paletteModule]);
+          return undefined;
+        },
+        getModuleById: vi.fn((id: string) => ({ id })),
+        invalidateModule: vi.fn(),
+      },
+    };
+
+    const plugin = styleDictionaryPlugin({
+      source: ['tokens/**/*.ts'],
+      platforms: {
+        web: { buildPath: 'dist', files: [{ destination: 'tokens.json' }] },
+      },
+    });
+
+    await runHook(plugin.configureServer, server as never);
+    expect(server.ssrLoadModule).toHaveBeenCalledWith(buttonFile);
+
+    await runHook(plugin.handleHotUpdate, {
+      file: paletteFile,
+      server: server as never,
+    } as never);
+
+    expect(StyleDictionaryMock.instances).toHaveLength(2);
   });
 
   it('builds before build command completes', async () => {
@@ -253,7 +682,7 @@ describe('build timing and HMR behavior', () => {
       plugins: [plugin, otherPlugin],
     } as never);
 
-    expect(StyleDictionaryMock.buildAllPlatformsMock).toHaveBeenCalledTimes(1);
+    expect(StyleDictionaryMock.instances).toHaveLength(1);
     expect(createServer).toHaveBeenCalledTimes(1);
     expect(createServer).toHaveBeenCalledWith(
       expect.objectContaining({
@@ -300,7 +729,7 @@ describe('build timing and HMR behavior', () => {
       },
     } as never);
 
-    expect(StyleDictionaryMock.buildAllPlatformsMock).not.toHaveBeenCalled();
+    expect(StyleDictionaryMock.instances).toHaveLength(0);
     expect(watcher.add).not.toHaveBeenCalled();
 
     await runHook(plugin.configResolved, {
@@ -315,7 +744,7 @@ describe('build timing and HMR behavior', () => {
       plugins: [plugin],
     } as never);
 
-    expect(StyleDictionaryMock.buildAllPlatformsMock).toHaveBeenCalledTimes(1);
+    expect(StyleDictionaryMock.instances).toHaveLength(1);
     expect(createServer).toHaveBeenCalledWith(
       expect.objectContaining({
         plugins: [],
@@ -329,6 +758,61 @@ describe('build timing and HMR behavior', () => {
     expect(close).toHaveBeenCalledTimes(1);
   });
 
+  it('rebuilds on token changes while Vitest watches', async () => {
+    mockChangingBuilds();
+    const root = '/root/project';
+    const listeners = new Map<string, (file: string) => void>();
+    const server = {
+      config: {
+        root,
+        mode: 'test',
+        command: 'serve',
+        server: { watch: {} },
+        logger: { error: vi.fn() },
+      },
+      pluginContainer: { resolveId: vi.fn() },
+      watcher: {
+        add: vi.fn(),
+        on: vi.fn((event: string, listener: (file: string) => void) =>
+          listeners.set(event, listener),
+        ),
+      },
+      moduleGraph: {
+        getModulesByFile: () => undefined,
+        getModuleById: vi.fn(),
+        invalidateModule: vi.fn(),
+      },
+      reloadModule: vi.fn().mockResolvedValue(undefined),
+    };
+    const sdConfig: Config = {
+      source: ['tokens/**/*.json'],
+      platforms: {
+        web: { buildPath: 'dist', files: [{ destination: 'tokens.json' }] },
+      },
+    };
+
+    // `vitest run`
+    await runHook(styleDictionaryPlugin(sdConfig).configureServer, {
+      ...server,
+      config: { ...server.config, server: { watch: null } },
+    } as never);
+    expect(server.watcher.add).not.toHaveBeenCalled();
+
+    await runHook(
+      styleDictionaryPlugin(sdConfig, { debounce: 0 }).configureServer,
+      server as never,
+    );
+    expect(server.watcher.add).toHaveBeenCalledWith([
+      path.join(root, 'tokens/**/*.json'),
+    ]);
+    expect(StyleDictionaryMock.instances).toHaveLength(0);
+
+    listeners.get('change')?.(path.join(root, 'tokens', 'colors.json'));
+    await vi.waitFor(() =>
+      expect(StyleDictionaryMock.instances).toHaveLength(1),
+    );
+  });
+
   it('resolves directory sources before building', async () => {
     resetVitestDetection();
     const root = '/root/project';
@@ -343,7 +827,8 @@ describe('build timing and HMR behavior', () => {
       pluginContainer: {
         resolveId: vi.fn().mockResolvedValue({ id: entryFile }),
       },
-      watcher: { add: vi.fn() },
+      watcher: { add: vi.fn(), on: vi.fn() },
+      middlewares: { use: vi.fn() },
       moduleGraph: {
         getModuleByFile: vi.fn(),
       },
@@ -371,6 +856,944 @@ describe('build timing and HMR behavior', () => {
   });
 });
 
+describe('strict builds', () => {
+  const createBuildConfig = (plugin: unknown) => ({
+    root: '/root/project',
+    mode: 'production',
+    command: 'build',
+    logger: { error: vi.fn() },
+    logLevel: 'info',
+    resolve: {},
+    define: {},
+    css: {},
+    plugins: [plugin],
+  });
+
+  beforeEach(() => {
+    resetVitestDetection();
+    createServerMock.mockResolvedValue({
+      close: vi.fn().mockResolvedValue(undefined),
+      config: { root: '/root/project' },
+      pluginContainer: {
+        resolveId: vi.fn().mockResolvedValue({ id: '/root/project/tokens.ts' }),
+      },
+    });
+  });
+
+  const sdConfig: Config = {
+    source: ['tokens.ts'],
+    platforms: {
+      web: { buildPath: 'dist', files: [{ destination: 'tokens.json' }] },
+    },
+  };
+
+  it('rejects from configResolved when the build fails', async () => {
+    StyleDictionaryMock.formatPlatformMock.mockRejectedValueOnce(
+      new Error('Reference Errors'),
+    );
+    const plugin = styleDictionaryPlugin(sdConfig);
+
+    await expect(
+      runHook(plugin.configResolved, createBuildConfig(plugin) as never),
+    ).rejects.toThrow('[vite:style-dictionary] Build failed: Reference Errors');
+  });
+
+  it('logs and continues when strict is disabled', async () => {
+    StyleDictionaryMock.formatPlatformMock.mockRejectedValueOnce(
+      new Error('Reference Errors'),
+    );
+    const plugin = styleDictionaryPlugin(sdConfig, { strict: false });
+    const resolved = createBuildConfig(plugin);
+
+    await runHook(plugin.configResolved, resolved as never);
+
+    expect(resolved.logger.error).toHaveBeenCalledWith(
+      '[vite:style-dictionary] Build failed: Reference Errors',
+      expect.anything(),
+    );
+  });
+
+  it('turns Style Dictionary warnings into errors with failOnWarnings', async () => {
+    const plugin = styleDictionaryPlugin(sdConfig, { failOnWarnings: true });
+
+    await runHook(plugin.configResolved, createBuildConfig(plugin) as never);
+
+    const instance = StyleDictionaryMock.instances[0] as { config: Config };
+    expect(instance.config.log).toMatchObject({
+      warnings: 'error',
+      errors: { brokenReferences: 'throw' },
+    });
+  });
+});
+
+describe('error overlay', () => {
+  it('reports failed builds to the client and clears them on success', async () => {
+    resetVitestDetection();
+    const root = '/root/project';
+    const tokensFile = path.join(root, 'tokens.ts');
+    StyleDictionaryMock.formatPlatformMock.mockRejectedValueOnce(
+      new Error('Reference Errors'),
+    );
+    const server = {
+      config: {
+        root,
+        mode: 'development',
+        command: 'serve',
+        logger: { error: vi.fn() },
+      },
+      pluginContainer: {
+        resolveId: vi.fn().mockResolvedValue({ id: tokensFile }),
+      },
+      watcher: { add: vi.fn(), on: vi.fn() },
+      middlewares: { use: vi.fn() },
+      hot: { send: vi.fn() },
+      moduleGraph: {
+        getModulesByFile: () => undefined,
+        getModuleById: vi.fn(),
+        invalidateModule: vi.fn(),
+      },
+    };
+
+    const plugin = styleDictionaryPlugin({
+      source: ['tokens.ts'],
+      platforms: {
+        web: { buildPath: 'dist', files: [{ destination: 'tokens.json' }] },
+      },
+    });
+
+    await runHook(plugin.configureServer, server as never);
+
+    expect(server.config.logger.error).toHaveBeenCalledWith(
+      '[vite:style-dictionary] Build failed: Reference Errors',
+      expect.anything(),
+    );
+    expect(server.hot.send).toHaveBeenCalledWith({
+      type: 'error',
+      err: expect.objectContaining({
+        message: 'Reference Errors',
+        plugin: '[vite:style-dictionary]',
+      }),
+    });
+
+    await runHook(plugin.handleHotUpdate, {
+      file: tokensFile,
+      server: server as never,
+    } as never);
+
+    expect(server.hot.send).toHaveBeenCalledWith({
+      type: 'update',
+      updates: [],
+    });
+    expect(server.hot.send).toHaveBeenLastCalledWith({
+      type: 'custom',
+      event: 'style-dictionary:update',
+      data: {
+        configs: [
+          { config: 'default', added: [], removed: [], changed: [], files: [] },
+        ],
+      },
+    });
+  });
+});
+
+describe('in-memory outputs', () => {
+  it('serves formatted outputs as virtual modules instead of writing them', async () => {
+    resetVitestDetection();
+    const root = '/root/project';
+    const tokensFile = path.join(root, 'tokens.ts');
+    const outputId = '\0virtual:style-dictionary/css/variables.css';
+    const tokensModule = {
+      importedModules: new Set<unknown>(),
+      ssrImportedModules: new Set<unknown>(),
+    };
+    StyleDictionaryMock.formatPlatformMock.mockResolvedValue([
+      { output: ':root { --color: red; }', destination: 'dist/variables.css' },
+    ]);
+
+    const server = {
+      config: {
+        root,
+        mode: 'development',
+        command: 'serve',
+        logger: { error: vi.fn() },
+      },
+      pluginContainer: {
+        resolveId: vi.fn().mockResolvedValue({ id: tokensFile }),
+      },
+      watcher: { add: vi.fn(), on: vi.fn() },
+      middlewares: { use: vi.fn() },
+      moduleGraph: {
+        getModulesByFile: (file: string) =>
+          file === tokensFile ? new Set([tokensModule]) : new Set(),
+        getModuleById: vi.fn((id: string) =>
+          id === outputId ? { id } : undefined,
+        ),
+        invalidateModule: vi.fn(),
+      },
+    };
+
+    const plugin = styleDictionaryPlugin(
+      {
+        source: ['tokens.ts'],
+        platforms: {
+          css: {
+            buildPath: 'dist',
+            files: [{ destination: 'variables.css' }],
+          },
+        },
+      },
+      { inMemory: true },
+    );
+
+    await runHook(plugin.configureServer, server as never);
+
+    expect(fs.writeFile).not.toHaveBeenCalled();
+    const resolveId = plugin.resolveId as (id: string) => string | undefined;
+    const load = plugin.load as (id: string) => string | undefined;
+    expect(resolveId('virtual:style-dictionary/css/variables.css')).toBe(outputId);
+    expect(resolveId('virtual:style-dictionary/css/missing.css')).toBeUndefined();
+    expect(load(outputId)).toBe(':root { --color: red; }');
+
+    StyleDictionaryMock.tokensMock.mockReturnValue({ color: { value: 'blue' } });
+    StyleDictionaryMock.formatPlatformMock.mockResolvedValue([
+      { output: ':root { --color: blue; }', destination: 'dist/variables.css' },
+    ]);
+    const modules = await runHook(plugin.handleHotUpdate, {
+      file: tokensFile,
+      server: server as never,
+    } as never);
+
+    expect(modules).toEqual([{ id: outputId }]);
+    expect(server.moduleGraph.invalidateModule).toHaveBeenCalledWith({
+      id: outputId,
+    });
+  });
+});
+
+describe('rebuild queue', () => {
+  it('coalesces changes saved together into one build', async () => {
+    mockChangingBuilds();
+    resetVitestDetection();
+    const root = '/root/project';
+    const tokensFile = path.join(root, 'tokens.ts');
+    const server = {
+      config: {
+        root,
+        mode: 'development',
+        command: 'serve',
+        logger: { error: vi.fn() },
+      },
+      pluginContainer: {
+        resolveId: vi.fn().mockResolvedValue({ id: tokensFile }),
+      },
+      watcher: { add: vi.fn(), on: vi.fn() },
+      middlewares: { use: vi.fn() },
+      moduleGraph: {
+        getModulesByFile: () => undefined,
+        getModuleById: vi.fn((id: string) => ({ id })),
+        invalidateModule: vi.fn(),
+      },
+    };
+
+    const plugin = styleDictionaryPlugin(
+      {
+        source: ['tokens.ts'],
+        platforms: {
+          web: { buildPath: 'dist', files: [{ destination: 'tokens.json' }] },
+        },
+      },
+      { debounce: 5 },
+    );
+
+    await runHook(plugin.configureServer, server as never);
+
+    const results = await Promise.all([
+      runHook(plugin.handleHotUpdate, { file: tokensFile, server } as never),
+      runHook(plugin.handleHotUpdate, { file: tokensFile, server } as never),
+    ]);
+
+    expect(StyleDictionaryMock.instances).toHaveLength(2);
+    expect(results[0]).toEqual([]);
+    expect(results[1]).toEqual([
+      { id: path.resolve(root, 'dist', 'tokens.json') },
+      { id: '\0virtual:style-dictionary/tokens' },
+    ]);
+  });
+});
+
+describe('incremental rebuilds', () => {
+  it('skips unchanged outputs and only returns modules that changed', async () => {
+    resetVitestDetection();
+    const root = '/root/project';
+    const tokensFile = path.join(root, 'tokens.ts');
+    const server = {
+      config: {
+        root,
+        mode: 'development',
+        command: 'serve',
+        logger: { error: vi.fn() },
+      },
+      pluginContainer: {
+        resolveId: vi.fn().mockResolvedValue({ id: tokensFile }),
+      },
+      watcher: { add: vi.fn(), on: vi.fn() },
+      middlewares: { use: vi.fn() },
+      moduleGraph: {
+        getModulesByFile: () => undefined,
+        getModuleById: vi.fn((id: string) => ({ id })),
+        invalidateModule: vi.fn(),
+      },
+    };
+    StyleDictionaryMock.tokensMock.mockReturnValue({ color: { value: 'red' } });
+    StyleDictionaryMock.formatPlatformMock.mockResolvedValue([
+      { output: 'red' },
+    ]);
+
+    const plugin = styleDictionaryPlugin({
+      source: ['tokens.ts'],
+      platforms: {
+        web: { buildPath: 'dist', files: [{ destination: 'tokens.json' }] },
+      },
+    });
+
+    await runHook(plugin.configureServer, server as never);
+
+    const outputFile = path.resolve(root, 'dist', 'tokens.json');
+    expect(fs.writeFile).toHaveBeenCalledWith(outputFile, 'red');
+    vi.mocked(fs.readFile).mockImplementation(async (file) =>
+      file === outputFile ? 'red' : Promise.reject(new Error('ENOENT')),
+    );
+
+    // Token values changed, but the formatted output did not.
+    StyleDictionaryMock.tokensMock.mockReturnValue({ color: { value: 'blue' } });
+    const modules = await runHook(plugin.handleHotUpdate, {
+      file: tokensFile,
+      server: server as never,
+    } as never);
+
+    expect(fs.writeFile).toHaveBeenCalledTimes(1);
+    expect(modules).toEqual([{ id: '\0virtual:style-dictionary/tokens' }]);
+
+    // Nothing changed at all: no platform is formatted again.
+    StyleDictionaryMock.formatPlatformMock.mockClear();
+    const unchanged = await runHook(plugin.handleHotUpdate, {
+      file: tokensFile,
+      server: server as never,
+    } as never);
+
+    expect(StyleDictionaryMock.formatPlatformMock).not.toHaveBeenCalled();
+    expect(unchanged).toEqual([]);
+  });
+
+  it('rebuilds outputs when an alias is re-pointed to an equal value', async () => {
+    resetVitestDetection();
+    const root = '/root/project';
+    const tokensFile = path.join(root, 'tokens.ts');
+    const server = {
+      config: {
+        root,
+        mode: 'development',
+        command: 'serve',
+        logger: { error: vi.fn() },
+      },
+      pluginContainer: {
+        resolveId: vi.fn().mockResolvedValue({ id: tokensFile }),
+      },
+      watcher: { add: vi.fn(), on: vi.fn() },
+      middlewares: { use: vi.fn() },
+      moduleGraph: {
+        getModulesByFile: () => undefined,
+        getModuleById: vi.fn((id: string) => ({ id })),
+        invalidateModule: vi.fn(),
+      },
+    };
+    const tokens = (alias: string) => ({
+      red: { value: '#f00', filePath: 'tokens.ts', isSource: true },
+      danger: { value: '#f00', filePath: 'tokens.ts', isSource: true },
+      error: { value: `{${alias}}`, filePath: 'tokens.ts', isSource: true },
+    });
+    StyleDictionaryMock.tokensMock.mockReturnValue(tokens('red'));
+    StyleDictionaryMock.formatPlatformMock.mockResolvedValue([
+      { output: '--error: var(--red);' },
+    ]);
+
+    const plugin = styleDictionaryPlugin({
+      source: ['tokens.ts'],
+      platforms: {
+        web: { buildPath: 'dist', files: [{ destination: 'tokens.css' }] },
+      },
+    });
+
+    await runHook(plugin.configureServer, server as never);
+
+    StyleDictionaryMock.tokensMock.mockReturnValue(tokens('danger'));
+    StyleDictionaryMock.formatPlatformMock.mockResolvedValue([
+      { output: '--error: var(--danger);' },
+    ]);
+    await runHook(plugin.handleHotUpdate, {
+      file: tokensFile,
+      server: server as never,
+    } as never);
+
+    expect(fs.writeFile).toHaveBeenLastCalledWith(
+      path.resolve(root, 'dist', 'tokens.css'),
+      '--error: var(--danger);',
+    );
+  });
+});
+
+describe('update events', () => {
+  it('broadcasts the token diff and regenerated files of a rebuild', async () => {
+    resetVitestDetection();
+    const root = '/root/project';
+    const tokensFile = path.join(root, 'tokens.ts');
+    const server = {
+      config: {
+        root,
+        mode: 'development',
+        command: 'serve',
+        logger: { error: vi.fn() },
+      },
+      pluginContainer: {
+        resolveId: vi.fn().mockResolvedValue({ id: tokensFile }),
+      },
+      watcher: { add: vi.fn(), on: vi.fn() },
+      middlewares: { use: vi.fn() },
+      hot: { send: vi.fn() },
+      moduleGraph: {
+        getModulesByFile: () => undefined,
+        getModuleById: vi.fn((id: string) => ({ id })),
+        invalidateModule: vi.fn(),
+      },
+    };
+    StyleDictionaryMock.tokensMock.mockReturnValue({
+      color: { red: { value: '#f00' }, blue: { value: '#00f' } },
+    });
+    StyleDictionaryMock.formatPlatformMock.mockResolvedValue([
+      { output: 'v1' },
+    ]);
+
+    const plugin = styleDictionaryPlugin({
+      source: ['tokens.ts'],
+      platforms: {
+        web: { buildPath: 'dist', files: [{ destination: 'tokens.json' }] },
+      },
+    });
+
+    await runHook(plugin.configureServer, server as never);
+
+    StyleDictionaryMock.tokensMock.mockReturnValue({
+      color: { red: { value: '#e00' }, green: { value: '#0f0' } },
+    });
+    StyleDictionaryMock.formatPlatformMock.mockResolvedValue([
+      { output: 'v2' },
+    ]);
+    await runHook(plugin.handleHotUpdate, {
+      file: tokensFile,
+      server: server as never,
+    } as never);
+
+    expect(server.hot.send).toHaveBeenLastCalledWith({
+      type: 'custom',
+      event: 'style-dictionary:update',
+      data: {
+        configs: [
+          {
+            config: 'default',
+            added: [{ path: 'color.green', newValue: '#0f0' }],
+            removed: [{ path: 'color.blue', oldValue: '#00f' }],
+            changed: [
+              { path: 'color.red', oldValue: '#f00', newValue: '#e00' },
+            ],
+            files: ['dist/tokens.json'],
+          },
+        ],
+      },
+    });
+  });
+});
+
+describe('multiple configs', () => {
+  it('normalizes single, array and named configs', () => {
+    const light: Config = { source: ['light.ts'] };
+    const dark: Config = { source: ['dark.ts'] };
+
+    expect(normalizeConfigs(light)).toEqual([['default', light]]);
+    expect(normalizeConfigs([light, dark])).toEqual([
+      ['0', light],
+      ['1', dark],
+    ]);
+    expect(normalizeConfigs({ light, dark })).toEqual([
+      ['light', light],
+      ['dark', dark],
+    ]);
+  });
+
+  it('walks the module graph once for every source set', async () => {
+    const root = '/root/project';
+    const lightFile = path.join(root, 'light.ts');
+    const darkFile = path.join(root, 'dark.ts');
+    const paletteFile = path.join(root, 'palette.ts');
+    const createModule = () => ({
+      importedModules: new Set<unknown>(),
+      ssrImportedModules: new Set<unknown>(),
+    });
+    const lightModule = createModule();
+    const darkModule = createModule();
+    const paletteModule = createModule();
+    lightModule.importedModules.add(paletteModule);
+    darkModule.ssrImportedModules.add(paletteModule);
+    const modulesByFile = new Map([
+      [lightFile, lightModule],
+      [darkFile, darkModule],
+      [paletteFile, paletteModule],
+    ]);
+
+    const server = {
+      config: { root },
+      pluginContainer: {
+        resolveId: vi.fn(async (id: string) => ({ id })),
+      },
+      moduleGraph: {
+        getModulesByFile: (file: string) =>
+          modulesByFile.has(file) ? new Set([modulesByFile.get(file)]) : undefined,
+      },
+    };
+    const sourceSets = new Map([
+      ['light', ['light.ts']],
+      ['dark', ['dark.ts']],
+    ]);
+
+    expect(
+      await getAffectedSourceSets(server as never, sourceSets, lightFile),
+    ).toEqual(new Set(['light']));
+    expect(
+      await getAffectedSourceSets(server as never, sourceSets, paletteFile),
+    ).toEqual(new Set(['light', 'dark']));
+  });
+
+  it('walks the module graph from files loaded by glob sources', async () => {
+    const root = '/root/project';
+    const buttonFile = path.join(root, 'tokens', 'button.ts');
+    const paletteFile = path.join(root, 'palette.ts');
+    const paletteModule = {
+      importedModules: new Set<unknown>(),
+      ssrImportedModules: new Set<unknown>(),
+    };
+    const buttonModule = {
+      importedModules: new Set<unknown>(),
+      ssrImportedModules: new Set<unknown>([paletteModule]),
+    };
+    const server = {
+      config: { root },
+      pluginContainer: { resolveId: vi.fn() },
+      moduleGraph: {
+        getModulesByFile: (file: string) => {
+          if (file === buttonFile) return new Set([buttonModule]);
+          if (file === paletteFile) return new Set([paletteModule]);
+          return undefined;
+        },
+      },
+    };
+    const sourceSets = new Map([['default', ['tokens/**/*.ts']]]);
+
+    expect(
+      await getAffectedSourceSets(server as never, sourceSets, paletteFile),
+    ).toEqual(new Set());
+    expect(
+      await getAffectedSourceSets(
+        server as never,
+        sourceSets,
+        paletteFile,
+        new Map([['default', [buttonFile]]]),
+      ),
+    ).toEqual(new Set(['default']));
+  });
+
+  it('rebuilds only the configs affected by a change', async () => {
+    mockChangingBuilds();
+    resetVitestDetection();
+    const root = '/root/project';
+    const lightFile = path.join(root, 'light.ts');
+    const darkFile = path.join(root, 'dark.ts');
+    const server = {
+      config: {
+        root,
+        mode: 'development',
+        command: 'serve',
+        logger: { error: vi.fn() },
+      },
+      pluginContainer: {
+        resolveId: vi.fn(async (id: string) => ({ id })),
+      },
+      watcher: { add: vi.fn(), on: vi.fn() },
+      middlewares: { use: vi.fn() },
+      moduleGraph: {
+        getModulesByFile: () => undefined,
+        getModuleById: vi.fn((id: string) => ({ id })),
+        invalidateModule: vi.fn(),
+      },
+    };
+    const platforms = {
+      web: { buildPath: 'dist', files: [{ destination: 'tokens.json' }] },
+    };
+
+    const plugin = styleDictionaryPlugin({
+      light: { source: ['light.ts'], platforms },
+      dark: { source: ['dark.ts'], platforms },
+    });
+
+    await runHook(plugin.configureServer, server as never);
+
+    expect(StyleDictionaryMock.instances).toHaveLength(2);
+    expect(server.watcher.add).toHaveBeenCalledWith([lightFile, darkFile]);
+
+    const modules = await runHook(plugin.handleHotUpdate, {
+      file: darkFile,
+      server: server as never,
+    } as never);
+
+    expect(StyleDictionaryMock.instances).toHaveLength(3);
+    const rebuilt = StyleDictionaryMock.instances[2] as { config: Config };
+    expect(castArray(rebuilt.config.source)).toEqual([darkFile]);
+    expect(modules).toEqual([
+      { id: path.resolve(root, 'dist', 'tokens.json') },
+      { id: '\0virtual:style-dictionary/tokens/dark' },
+      { id: '\0virtual:style-dictionary/tokens' },
+    ]);
+  });
+});
+
+describe('theme permutations', () => {
+  it('rebuilds only the permutations that include the changed file', async () => {
+    resetVitestDetection();
+    const root = '/root/project';
+    const server = {
+      config: {
+        root,
+        mode: 'development',
+        command: 'serve',
+        logger: { error: vi.fn() },
+      },
+      pluginContainer: {
+        resolveId: vi.fn(async (id: string) => ({ id })),
+      },
+      watcher: { add: vi.fn(), on: vi.fn() },
+      middlewares: { use: vi.fn() },
+      moduleGraph: {
+        getModulesByFile: () => undefined,
+        getModuleById: vi.fn(),
+        invalidateModule: vi.fn(),
+      },
+    };
+
+    const plugin = styleDictionaryPlugin(
+      {
+        source: ['base.ts'],
+        platforms: {
+          css: {
+            buildPath: 'dist/{brand}',
+            files: [{ destination: '{mode}.css' }],
+          },
+        },
+      },
+      {
+        themes: {
+          brand: { acme: 'acme.ts', globex: 'globex.ts' },
+          mode: { light: 'light.ts', dark: 'dark.ts' },
+        },
+      },
+    );
+
+    await runHook(plugin.configureServer, server as never);
+
+    expect(StyleDictionaryMock.instances).toHaveLength(4);
+
+    await runHook(plugin.handleHotUpdate, {
+      file: path.join(root, 'dark.ts'),
+      server: server as never,
+    } as never);
+
+    const rebuilt = StyleDictionaryMock.instances.slice(4) as Array<{
+      config: Config;
+    }>;
+    expect(rebuilt.map(({ config }) => config.platforms?.css)).toEqual([
+      { buildPath: 'dist/acme', files: [{ destination: 'dark.css' }] },
+      { buildPath: 'dist/globex', files: [{ destination: 'dark.css' }] },
+    ]);
+  });
+});
+
+describe('config file', () => {
+  it('reloads the config and removes outputs of dropped platforms', async () => {
+    resetVitestDetection();
+    const root = '/root/project';
+    const configFile = path.join(root, 'style-dictionary.config.ts');
+    const tokensFile = path.join(root, 'tokens.ts');
+    const configModule = {
+      importedModules: new Set<unknown>(),
+      ssrImportedModules: new Set<unknown>(),
+    };
+    let sdConfig: Config = {
+      source: ['tokens.ts'],
+      platforms: {
+        css: { buildPath: 'dist', files: [{ destination: 'tokens.css' }] },
+        js: { buildPath: 'dist', files: [{ destination: 'tokens.js' }] },
+      },
+    };
+    const server = {
+      config: {
+        root,
+        mode: 'development',
+        command: 'serve',
+        logger: { error: vi.fn() },
+      },
+      pluginContainer: {
+        resolveId: vi.fn(async (id: string) => ({ id })),
+      },
+      ssrLoadModule: vi.fn(async () => ({ default: sdConfig })),
+      watcher: { add: vi.fn(), on: vi.fn() },
+      middlewares: { use: vi.fn() },
+      moduleGraph: {
+        getModulesByFile: (file: string) =>
+          file === configFile ? new Set([configModule]) : undefined,
+        getModuleById: vi.fn((id: string) => ({ id })),
+        invalidateModule: vi.fn(),
+      },
+    };
+
+    const plugin = styleDictionaryPlugin('style-dictionary.config.ts');
+
+    await runHook(plugin.configureServer, server as never);
+
+    expect(server.ssrLoadModule).toHaveBeenCalledWith(configFile);
+    expect(StyleDictionaryMock.instances).toHaveLength(1);
+    expect(server.watcher.add).toHaveBeenLastCalledWith([configFile, tokensFile]);
+
+    sdConfig = {
+      source: ['tokens.ts'],
+      platforms: {
+        css: { buildPath: 'dist', files: [{ destination: 'tokens.css' }] },
+      },
+    };
+    await runHook(plugin.handleHotUpdate, {
+      file: configFile,
+      server: server as never,
+    } as never);
+
+    expect(StyleDictionaryMock.instances).toHaveLength(2);
+    const rebuilt = StyleDictionaryMock.instances[1] as { config: Config };
+    expect(Object.keys(rebuilt.config.platforms ?? {})).toEqual(['css']);
+    expect(fs.rm).toHaveBeenCalledTimes(1);
+    expect(fs.rm).toHaveBeenCalledWith(path.resolve(root, 'dist', 'tokens.js'), {
+      force: true,
+    });
+  });
+
+  it('reports a config file that fails to load', async () => {
+    resetVitestDetection();
+    const root = '/root/project';
+    const server = {
+      config: {
+        root,
+        mode: 'development',
+        command: 'serve',
+        logger: { error: vi.fn() },
+      },
+      pluginContainer: { resolveId: vi.fn() },
+      ssrLoadModule: vi.fn().mockRejectedValue(new Error('Unexpected token')),
+      watcher: { add: vi.fn(), on: vi.fn() },
+      middlewares: { use: vi.fn() },
+      hot: { send: vi.fn() },
+      moduleGraph: { getModulesByFile: () => undefined },
+    };
+
+    const plugin = styleDictionaryPlugin('style-dictionary.config.ts');
+
+    await runHook(plugin.configureServer, server as never);
+
+    expect(StyleDictionaryMock.instances).toHaveLength(0);
+    expect(server.config.logger.error).toHaveBeenCalledWith(
+      '[vite:style-dictionary] Loading style-dictionary.config.ts failed: Unexpected token',
+      expect.anything(),
+    );
+    expect(server.hot.send).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'error' }),
+    );
+  });
+});
+
+describe('hook modules', () => {
+  it('merges hook modules into the config and rebuilds when they change', async () => {
+    resetVitestDetection();
+    const root = '/root/project';
+    const hooksFile = path.join(root, 'sd', 'hooks.ts');
+    const helperFile = path.join(root, 'sd', 'helpers.ts');
+    const hooksModule = {
+      importedModules: new Set<unknown>(),
+      ssrImportedModules: new Set<unknown>(),
+    };
+    const helperModule = {
+      importedModules: new Set<unknown>(),
+      ssrImportedModules: new Set<unknown>(),
+    };
+    hooksModule.ssrImportedModules.add(helperModule);
+    const format = () => '';
+    const server = {
+      config: {
+        root,
+        mode: 'development',
+        command: 'serve',
+        logger: { error: vi.fn() },
+      },
+      pluginContainer: {
+        resolveId: vi.fn(async (id: string) => ({ id })),
+      },
+      ssrLoadModule: vi.fn(async () => ({
+        formats: { 'custom/format': format },
+      })),
+      watcher: { add: vi.fn(), on: vi.fn() },
+      middlewares: { use: vi.fn() },
+      moduleGraph: {
+        getModulesByFile: (file: string) => {
+          if (file === hooksFile) return new Set([hooksModule]);
+          if (file === helperFile) return new Set([helperModule]);
+          return undefined;
+        },
+        getModuleById: vi.fn((id: string) => ({ id })),
+        invalidateModule: vi.fn(),
+      },
+    };
+
+    const plugin = styleDictionaryPlugin(
+      {
+        source: ['tokens.ts'],
+        hooks: { formats: { 'config/format': format } },
+        platforms: {
+          web: { buildPath: 'dist', files: [{ destination: 'tokens.json' }] },
+        },
+      },
+      { hookModules: ['sd/hooks.ts'] },
+    );
+
+    await runHook(plugin.configureServer, server as never);
+
+    expect(server.ssrLoadModule).toHaveBeenCalledWith(hooksFile);
+    const instance = StyleDictionaryMock.instances[0] as { config: Config };
+    expect(instance.config.hooks?.formats).toEqual({
+      'config/format': format,
+      'custom/format': format,
+    });
+    expect(server.watcher.add).toHaveBeenCalledWith([
+      hooksFile,
+      path.join(root, 'tokens.ts'),
+    ]);
+
+    StyleDictionaryMock.formatPlatformMock.mockClear();
+    await runHook(plugin.handleHotUpdate, {
+      file: helperFile,
+      server: server as never,
+    } as never);
+
+    // Token values did not change, but every platform is formatted again.
+    expect(StyleDictionaryMock.instances).toHaveLength(2);
+    expect(StyleDictionaryMock.formatPlatformMock).toHaveBeenCalledWith('web');
+  });
+});
+
+describe('token declarations', () => {
+  it('writes declarations for every tokens module after a build', async () => {
+    const root = '/root/project';
+    StyleDictionaryMock.tokensMock.mockReturnValue({
+      color: { value: '#fff', type: 'color' },
+    });
+    createServerMock.mockResolvedValue({
+      close: vi.fn().mockResolvedValue(undefined),
+      config: { root },
+      pluginContainer: {
+        resolveId: vi.fn(async (id: string) => ({ id })),
+      },
+    });
+    const platforms = {
+      web: { buildPath: 'dist', files: [{ destination: 'tokens.json' }] },
+    };
+
+    const plugin = styleDictionaryPlugin(
+      {
+        light: { source: ['light.ts'], platforms },
+        dark: { source: ['dark.ts'], platforms },
+      },
+      { dts: 'types/tokens.d.ts' },
+    );
+
+    await runHook(plugin.configResolved, {
+      root,
+      mode: 'test',
+      command: 'serve',
+      logger: { error: vi.fn() },
+      logLevel: 'info',
+      resolve: {},
+      define: {},
+      css: {},
+      plugins: [plugin],
+    } as never);
+
+    const file = path.resolve(root, 'types', 'tokens.d.ts');
+    const [, content] =
+      vi.mocked(fs.writeFile).mock.calls.find(([target]) => target === file) ??
+      [];
+    expect(content).toContain('declare module "virtual:style-dictionary/tokens" {');
+    expect(content).toContain(
+      'declare module "virtual:style-dictionary/tokens/light" {',
+    );
+    expect(content).toContain(
+      'declare module "virtual:style-dictionary/tokens/dark" {',
+    );
+    expect(content).toContain('readonly type: "color";');
+  });
+
+  it('keeps the declarations of the last build when a build fails', async () => {
+    const root = '/root/project';
+    StyleDictionaryMock.tokensMock.mockImplementation(() => {
+      throw new Error('broken tokens');
+    });
+    createServerMock.mockResolvedValue({
+      close: vi.fn().mockResolvedValue(undefined),
+      config: { root },
+      pluginContainer: {
+        resolveId: vi.fn(async (id: string) => ({ id })),
+      },
+    });
+    const logger = { error: vi.fn() };
+
+    const plugin = styleDictionaryPlugin(
+      { source: ['tokens.ts'], platforms: {} },
+      { dts: true, strict: false },
+    );
+
+    await runHook(plugin.configResolved, {
+      root,
+      mode: 'test',
+      command: 'serve',
+      logger,
+      logLevel: 'info',
+      resolve: {},
+      define: {},
+      css: {},
+      plugins: [plugin],
+    } as never);
+
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.stringContaining('broken tokens'),
+      expect.anything(),
+    );
+    expect(fs.writeFile).not.toHaveBeenCalledWith(
+      path.resolve(root, 'style-dictionary.d.ts'),
+      expect.anything(),
+    );
+  });
+});
+
 describe('HMR relevance and generated outputs', () => {
   it('treats token source and its imports as relevant for rebuilds', async () => {
     const root = '/root/project';
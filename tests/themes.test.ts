@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import type { Config } from 'style-dictionary';
+import { applyThemeTemplate, createThemePermutations } from '../src/themes';
+
+describe('createThemePermutations', () => {
+  const config: Config = {
+    source: ['tokens/base/**/*.json'],
+    platforms: {
+      css: {
+        transformGroup: 'css',
+        buildPath: 'dist/{brand}/',
+        files: [{ destination: '{mode}.css', format: 'css/variables' }],
+      },
+    },
+  };
+
+  it('builds every combination of dimension values', () => {
+    const permutations = createThemePermutations(config, {
+      brand: { acme: 'tokens/acme.json', globex: ['tokens/globex.json'] },
+      mode: { light: ['tokens/light.json'], dark: ['tokens/dark.json'] },
+    });
+
+    expect(permutations.map(({ name }) => name)).toEqual([
+      'acme-light',
+      'acme-dark',
+      'globex-light',
+      'globex-dark',
+    ]);
+    expect(permutations[1]?.theme).toEqual({ brand: 'acme', mode: 'dark' });
+    expect(permutations[1]?.config.source).toEqual([
+      'tokens/base/**/*.json',
+      'tokens/acme.json',
+      'tokens/dark.json',
+    ]);
+  });
+
+  it('fills placeholders in buildPath and destination', () => {
+    const [permutation] = createThemePermutations(config, {
+      brand: { acme: [] },
+      mode: { dark: [] },
+    });
+
+    expect(permutation?.config.platforms?.css).toEqual({
+      transformGroup: 'css',
+      buildPath: 'dist/acme/',
+      files: [{ destination: 'dark.css', format: 'css/variables' }],
+    });
+  });
+
+  it('leaves unknown placeholders untouched', () => {
+    expect(applyThemeTemplate('{brand}/{density}', { brand: 'acme' })).toBe(
+      'acme/{density}',
+    );
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import { TokenBuildError, toErrorPayload } from '../src/errors';
+import {
+  findCircularReferences,
+  toValidationError,
+  validateTokens,
+} from '../src/validation';
+
+describe('validateTokens', () => {
+  it('accepts valid DTCG tokens, aliases and composites', () => {
+    const tokens = {
+      color: {
+        $type: 'color',
+        brand: { $value: '#2798f5', filePath: 'src/colors.ts' },
+        text: { $value: 'oklch(0.3 0.02 250)' },
+        primary: { $value: '{color.brand}' },
+      },
+      space: {
+        $type: 'dimension',
+        small: { $value: '4px' },
+        none: { $value: 0 },
+      },
+      motion: {
+        fast: { $type: 'duration', $value: '120ms' },
+        ease: { $type: 'cubicBezier', $value: [0.4, 0, 0.2, 1] },
+      },
+      border: {
+        $type: 'border',
+        focus: {
+          $value: { color: '{color.brand}', width: '2px', style: 'solid' },
+        },
+      },
+      font: {
+        body: {
+          $type: 'typography',
+          $value: {
+            fontFamily: ['Inter', 'sans-serif'],
+            fontSize: '{space.small}',
+            fontWeight: 400,
+            letterSpacing: '0px',
+            lineHeight: 1.5,
+          },
+        },
+      },
+    };
+
+    expect(validateTokens(tokens, { usesDtcg: true })).toEqual([]);
+  });
+
+  it('reports values that do not match their inherited type as warnings', () => {
+    const tokens = {
+      color: {
+        $type: 'color',
+        brand: { $value: '#12', filePath: 'src/colors.ts' },
+      },
+      motion: { fast: { $type: 'duration', $value: '120px' } },
+    };
+
+    expect(validateTokens(tokens, { usesDtcg: true })).toEqual([
+      {
+        token: 'color.brand',
+        message: '$value "#12" is not a valid color',
+        severity: 'warning',
+        filePath: 'src/colors.ts',
+      },
+      {
+        token: 'motion.fast',
+        message: '$value "120px" is not a valid duration',
+        severity: 'warning',
+      },
+    ]);
+  });
+
+  it('reports unknown types, missing composite members and invalid names', () => {
+    const tokens = {
+      size: { small: { $type: 'size', $value: '4px' } },
+      font: {
+        body: {
+          $type: 'typography',
+          $value: { fontFamily: 'Inter', fontSize: '16px' },
+          filePath: 'src/font.ts',
+        },
+        'heading.large': {
+          $type: 'number',
+          $value: 2,
+          filePath: 'src/font.ts',
+        },
+      },
+    };
+
+    expect(validateTokens(tokens, { usesDtcg: true })).toEqual([
+      {
+        token: 'size.small',
+        message: '$type "size" is not a DTCG token type',
+        severity: 'warning',
+      },
+      {
+        token: 'font.body',
+        message:
+          '$value typography is missing fontWeight, letterSpacing, lineHeight',
+        severity: 'warning',
+        filePath: 'src/font.ts',
+      },
+      {
+        token: 'font.heading.large',
+        message: 'name must not contain ".", "{" or "}"',
+        severity: 'error',
+        filePath: 'src/font.ts',
+      },
+    ]);
+  });
+
+  it('only checks names in the legacy format', () => {
+    const tokens = { size: { small: { value: 'big', type: 'dimension' } } };
+
+    expect(validateTokens(tokens)).toEqual([]);
+  });
+});
+
+describe('findCircularReferences', () => {
+  it('reports each alias cycle once', () => {
+    const tokens = {
+      color: {
+        a: { value: '{color.b}', filePath: 'src/a.ts' },
+        b: { value: '{color.c.value}' },
+        c: { value: 'rgb({color.a})' },
+        d: { value: '{color.a}' },
+      },
+    };
+
+    expect(findCircularReferences(tokens)).toEqual([
+      {
+        token: 'color.a',
+        message:
+          'circular reference {color.a} -> {color.b} -> {color.c} -> {color.a}',
+        severity: 'error',
+        filePath: 'src/a.ts',
+      },
+    ]);
+  });
+});
+
+describe('toValidationError', () => {
+  it('lists every diagnostic and points the overlay at the first', () => {
+    const error = toValidationError([
+      {
+        token: 'color.brand',
+        message: 'bad',
+        severity: 'error',
+        filePath: 'src/colors.ts',
+      },
+      { token: 'size.small', message: 'worse', severity: 'error' },
+    ]);
+
+    expect(error).toBeInstanceOf(TokenBuildError);
+    expect(error.message).toBe(
+      [
+        'Invalid design tokens (2):',
+        '  color.brand: bad (src/colors.ts)',
+        '  size.small: worse',
+      ].join('\n'),
+    );
+    expect(toErrorPayload(error, '[vite:style-dictionary]')).toMatchObject({
+      id: 'src/colors.ts',
+      frame: 'color.brand',
+    });
+  });
+});